@@ -0,0 +1,44 @@
+/* eslint-disable no-restricted-globals */
+
+// Web Push通知的Service Worker
+
+// 收到服务器推送：页面可见时由页面自行处理，否则显示桌面通知
+self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch (error) {
+    payload = { body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const isVisible = clients.some((client) => client.visibilityState === 'visible');
+      if (isVisible) {
+        return undefined;
+      }
+
+      return self.registration.showNotification(payload.title || 'Wonders', {
+        body: payload.body || '',
+        tag: payload.tag || payload.event_id,
+        data: { url: payload.url || '/' },
+      });
+    })
+  );
+});
+
+// 点击通知：聚焦已打开的页面并跳转，没有则打开新窗口
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || '/';
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((item) => 'focus' in item);
+      if (client) {
+        return client.focus().then((focused) => (focused && 'navigate' in focused ? focused.navigate(url) : undefined));
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
\ No newline at end of file
@@ -1,31 +1,65 @@
 import React from 'react';
+import { Routes, Route, Navigate, useLocation, useSearchParams } from 'react-router-dom';
 import { useAuth } from './hooks/useAuth';
-import { ChatInterface, LoginForm } from './components';
+import { ChatInterface, LoginForm, SharedConversationView, AuthCallback, AccountSettings } from './components';
+import { LOGIN_PATH, AUTH_CALLBACK_PATH, SETTINGS_PATH, buildLoginPath, getSafeRedirect } from './utils/routes';
 import { Loader2 } from 'lucide-react';
 
-const App: React.FC = () => {
-  const { user, isAuthenticated, isLoading } = useAuth();
-
-  // 加载状态
-  if (isLoading) {
-    return (
-      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
-        <div className="text-center">
-          <Loader2 size={48} className="animate-spin text-blue-500 mx-auto mb-4" />
-          <p className="text-gray-600 dark:text-gray-400">正在加载...</p>
-        </div>
-      </div>
-    );
+// 加载状态
+const LoadingScreen: React.FC = () => (
+  <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+    <div className="text-center">
+      <Loader2 size={48} className="animate-spin text-blue-500 mx-auto mb-4" />
+      <p className="text-gray-600 dark:text-gray-400">正在加载...</p>
+    </div>
+  </div>
+);
+
+// 需要登录的页面，未登录时跳转到登录页，登录后返回当前页面
+const RequireAuth: React.FC<{ children: React.ReactElement }> = ({ children }) => {
+  const { user, isAuthenticated, isInitializing } = useAuth();
+  const location = useLocation();
+
+  if (isInitializing) {
+    return <LoadingScreen />;
+  }
+
+  if (!isAuthenticated || !user) {
+    return <Navigate to={buildLoginPath(location.pathname + location.search + location.hash)} replace />;
+  }
+
+  return children;
+};
+
+// 登录页，已登录时直接跳转到目标页面
+const LoginRoute: React.FC = () => {
+  const { user, isAuthenticated, isInitializing } = useAuth();
+  const [searchParams] = useSearchParams();
+
+  if (isInitializing) {
+    return <LoadingScreen />;
+  }
+
+  if (isAuthenticated && user) {
+    return <Navigate to={getSafeRedirect(searchParams.get('redirect'))} replace />;
   }
 
-  // 根据认证状态渲染不同组件
+  return <LoginForm />;
+};
+
+const App: React.FC = () => {
   return (
     <div className="App">
-      {isAuthenticated && user ? (
-        <ChatInterface />
-      ) : (
-        <LoginForm />
-      )}
+      <Routes>
+        {/* 公开的分享页面，无需登录 */}
+        <Route path="/share/:shareId" element={<SharedConversationView />} />
+        <Route path={LOGIN_PATH} element={<LoginRoute />} />
+        {/* Supabase邮件链接和第三方登录回调 */}
+        <Route path={AUTH_CALLBACK_PATH} element={<AuthCallback />} />
+        <Route path={SETTINGS_PATH} element={<RequireAuth><AccountSettings /></RequireAuth>} />
+        {/* 对话页面统一由ChatInterface根据路径处理，切换对话时不重新挂载 */}
+        <Route path="*" element={<RequireAuth><ChatInterface /></RequireAuth>} />
+      </Routes>
     </div>
   );
 };
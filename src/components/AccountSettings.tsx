@@ -0,0 +1,444 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  ArrowLeft, UserCog, Monitor, Smartphone, Shield, Database, AlertTriangle,
+  Loader2, Download, LogOut, Trash2, ShieldCheck
+} from 'lucide-react';
+import { UserSession } from '../types';
+import { useAuth } from '../hooks/useAuth';
+import { apiService } from '../services/api';
+import { downloadFile } from '../utils/export';
+import { LOGIN_PATH } from '../utils/routes';
+import UpgradeAccountDialog from './UpgradeAccountDialog';
+import toast from 'react-hot-toast';
+
+const DELETE_CONFIRM_TEXT = '删除账户';
+
+// 根据User-Agent粗略识别设备
+const describeDevice = (userAgent?: string): { name: string; isMobile: boolean } => {
+  if (!userAgent) return { name: '未知设备', isMobile: false };
+  const isMobile = /Mobile|Android|iPhone|iPad/i.test(userAgent);
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : '浏览器';
+  const os = /Windows/.test(userAgent) ? 'Windows'
+    : /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : '';
+  return { name: os ? `${browser} · ${os}` : browser, isMobile };
+};
+
+// 校验密码的请求返回401/403表示密码错误
+const isCredentialError = (error: any): boolean =>
+  error?.status === 401 || error?.status === 403;
+
+const formatDateTime = (dateString?: string) =>
+  dateString ? new Date(dateString).toLocaleString('zh-CN') : '—';
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm';
+const cardClassName = 'bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 p-5';
+
+// 账户设置页面
+const AccountSettings: React.FC = () => {
+  const { user, refreshUser, deleteAccount } = useAuth();
+  const navigate = useNavigate();
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [isLoadingSessions, setIsLoadingSessions] = useState(true);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [emailForm, setEmailForm] = useState({ email: '', password: '' });
+  const [passwordForm, setPasswordForm] = useState({ current: '', next: '', confirm: '' });
+  const [savingForm, setSavingForm] = useState<'email' | 'password' | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [deleteForm, setDeleteForm] = useState({ confirmText: '', password: '' });
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [showUpgrade, setShowUpgrade] = useState(false);
+
+  // 加载最新的用户信息和登录设备
+  useEffect(() => {
+    refreshUser().catch(error => console.error('获取用户信息失败:', error));
+
+    let cancelled = false;
+    apiService.getSessions()
+      .then(result => {
+        if (!cancelled) setSessions(result);
+      })
+      .catch(error => console.error('加载登录设备失败:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoadingSessions(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshUser]);
+
+  // 让其他设备退出登录
+  const handleRevokeSession = async (sessionId: string) => {
+    try {
+      setRevokingId(sessionId);
+      await apiService.revokeSession(sessionId);
+      setSessions(prev => prev.filter(session => session.session_id !== sessionId));
+      toast.success('已退出该设备');
+    } catch (error: any) {
+      console.error('退出设备失败:', error);
+      toast.error(error.message || '退出设备失败');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleChangeEmail = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!emailForm.email) {
+      toast.error('请填写新的邮箱地址');
+      return;
+    }
+
+    try {
+      setSavingForm('email');
+      await apiService.changeEmail({ email: emailForm.email, password: emailForm.password || undefined });
+      await refreshUser();
+      setEmailForm({ email: '', password: '' });
+      toast.success('邮箱已更新');
+    } catch (error: any) {
+      console.error('修改邮箱失败:', error);
+      toast.error(error.message || '修改邮箱失败');
+    } finally {
+      setSavingForm(null);
+    }
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passwordForm.next.length < 6) {
+      toast.error('新密码至少需要6位');
+      return;
+    }
+    if (passwordForm.next !== passwordForm.confirm) {
+      toast.error('两次输入的新密码不一致');
+      return;
+    }
+
+    try {
+      setSavingForm('password');
+      await apiService.changePassword({
+        current_password: passwordForm.current,
+        new_password: passwordForm.next,
+      });
+      setPasswordForm({ current: '', next: '', confirm: '' });
+      toast.success('密码已修改');
+    } catch (error: any) {
+      console.error('修改密码失败:', error);
+      toast.error(isCredentialError(error) ? '当前密码错误' : error.message || '修改密码失败');
+    } finally {
+      setSavingForm(null);
+    }
+  };
+
+  // 下载账户的全部数据
+  const handleExportData = async () => {
+    try {
+      setIsExporting(true);
+      const data = await apiService.exportUserData();
+      const date = new Date().toISOString().slice(0, 10);
+      downloadFile(JSON.stringify(data, null, 2), `wonders-data-${date}.json`, 'application/json');
+    } catch (error: any) {
+      console.error('导出数据失败:', error);
+      toast.error(error.message || '导出数据失败');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleDeleteAccount = async () => {
+    if (deleteForm.confirmText !== DELETE_CONFIRM_TEXT) return;
+
+    try {
+      setIsDeleting(true);
+      await deleteAccount(deleteForm.password || undefined);
+      navigate(LOGIN_PATH, { replace: true });
+    } catch (error: any) {
+      console.error('删除账户失败:', error);
+      toast.error(isCredentialError(error) ? '密码错误' : error.message || '删除账户失败');
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      {/* 顶部导航栏 */}
+      <header className="sticky top-0 z-10 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 px-4 py-3">
+        <div className="max-w-2xl mx-auto flex items-center space-x-3">
+          <button
+            onClick={() => navigate('/')}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-400"
+            title="返回对话"
+          >
+            <ArrowLeft size={20} />
+          </button>
+          <h1 className="text-lg font-semibold text-gray-900 dark:text-gray-100">账户设置</h1>
+        </div>
+      </header>
+
+      <main className="max-w-2xl mx-auto p-4 space-y-4">
+        {/* 个人资料 */}
+        <section className={cardClassName}>
+          <div className="flex items-center space-x-2 mb-4">
+            <UserCog size={18} className="text-blue-500" />
+            <h2 className="font-semibold text-gray-900 dark:text-gray-100">个人资料</h2>
+          </div>
+          <dl className="grid grid-cols-3 gap-y-3 text-sm">
+            <dt className="text-gray-500 dark:text-gray-400">邮箱</dt>
+            <dd className="col-span-2 text-gray-900 dark:text-gray-100 break-all">
+              {user?.is_anonymous ? '匿名用户' : user?.email || '—'}
+            </dd>
+            <dt className="text-gray-500 dark:text-gray-400">用户ID</dt>
+            <dd className="col-span-2 font-mono text-xs text-gray-700 dark:text-gray-300 break-all">{user?.id}</dd>
+            <dt className="text-gray-500 dark:text-gray-400">注册时间</dt>
+            <dd className="col-span-2 text-gray-900 dark:text-gray-100">{formatDateTime(user?.created_at)}</dd>
+            <dt className="text-gray-500 dark:text-gray-400">最近活跃</dt>
+            <dd className="col-span-2 text-gray-900 dark:text-gray-100">{formatDateTime(user?.last_active)}</dd>
+          </dl>
+        </section>
+
+        {/* 登录设备 */}
+        <section className={cardClassName}>
+          <div className="flex items-center space-x-2 mb-4">
+            <Monitor size={18} className="text-blue-500" />
+            <h2 className="font-semibold text-gray-900 dark:text-gray-100">登录设备</h2>
+          </div>
+          {isLoadingSessions ? (
+            <div className="flex justify-center py-4">
+              <Loader2 size={16} className="animate-spin text-gray-400" />
+            </div>
+          ) : sessions.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">暂无登录设备信息</p>
+          ) : (
+            <div className="divide-y divide-gray-200 dark:divide-gray-700">
+              {sessions.map(session => {
+                const device = describeDevice(session.user_agent);
+                const DeviceIcon = device.isMobile ? Smartphone : Monitor;
+                return (
+                  <div key={session.session_id} className="flex items-center justify-between py-3">
+                    <div className="flex items-center space-x-3 min-w-0">
+                      <DeviceIcon size={20} className="text-gray-400 flex-shrink-0" />
+                      <div className="min-w-0">
+                        <p className="text-sm text-gray-900 dark:text-gray-100 flex items-center space-x-2">
+                          <span>{device.name}</span>
+                          {session.is_current && (
+                            <span className="px-1.5 py-0.5 rounded text-xs bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">
+                              当前设备
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                          {session.ip_address && `${session.ip_address} · `}
+                          最近活跃 {formatDateTime(session.last_active || session.created_at)}
+                        </p>
+                      </div>
+                    </div>
+                    {!session.is_current && (
+                      <button
+                        onClick={() => handleRevokeSession(session.session_id)}
+                        disabled={revokingId === session.session_id}
+                        className="flex items-center space-x-1 px-2.5 py-1.5 rounded-lg text-xs text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50 flex-shrink-0"
+                      >
+                        {revokingId === session.session_id
+                          ? <Loader2 size={12} className="animate-spin" />
+                          : <LogOut size={12} />}
+                        <span>退出</span>
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </section>
+
+        {/* 账户安全 */}
+        <section className={cardClassName}>
+          <div className="flex items-center space-x-2 mb-4">
+            <Shield size={18} className="text-blue-500" />
+            <h2 className="font-semibold text-gray-900 dark:text-gray-100">账户安全</h2>
+          </div>
+          {user?.is_anonymous ? (
+            <div className="flex items-center justify-between space-x-3">
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                匿名账户没有邮箱和密码，注册后即可修改并永久保存对话。
+              </p>
+              <button
+                onClick={() => setShowUpgrade(true)}
+                className="btn-primary text-sm flex items-center space-x-1 flex-shrink-0"
+              >
+                <ShieldCheck size={14} />
+                <span>注册账户</span>
+              </button>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <form onSubmit={handleChangeEmail} className="space-y-2">
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">修改邮箱</h3>
+                <input
+                  type="email"
+                  value={emailForm.email}
+                  onChange={(e) => setEmailForm(prev => ({ ...prev, email: e.target.value }))}
+                  placeholder="新的邮箱地址"
+                  className={inputClassName}
+                  required
+                />
+                <input
+                  type="password"
+                  value={emailForm.password}
+                  onChange={(e) => setEmailForm(prev => ({ ...prev, password: e.target.value }))}
+                  placeholder="当前密码（通过第三方登录的账户可不填）"
+                  className={inputClassName}
+                />
+                <button
+                  type="submit"
+                  disabled={savingForm !== null}
+                  className="btn-primary text-sm flex items-center space-x-2"
+                >
+                  {savingForm === 'email' && <Loader2 size={14} className="animate-spin" />}
+                  <span>更新邮箱</span>
+                </button>
+              </form>
+
+              <form onSubmit={handleChangePassword} className="space-y-2">
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">修改密码</h3>
+                <input
+                  type="password"
+                  value={passwordForm.current}
+                  onChange={(e) => setPasswordForm(prev => ({ ...prev, current: e.target.value }))}
+                  placeholder="当前密码"
+                  className={inputClassName}
+                  required
+                />
+                <input
+                  type="password"
+                  value={passwordForm.next}
+                  onChange={(e) => setPasswordForm(prev => ({ ...prev, next: e.target.value }))}
+                  placeholder="新密码"
+                  className={inputClassName}
+                  required
+                />
+                <input
+                  type="password"
+                  value={passwordForm.confirm}
+                  onChange={(e) => setPasswordForm(prev => ({ ...prev, confirm: e.target.value }))}
+                  placeholder="确认新密码"
+                  className={inputClassName}
+                  required
+                />
+                <button
+                  type="submit"
+                  disabled={savingForm !== null}
+                  className="btn-primary text-sm flex items-center space-x-2"
+                >
+                  {savingForm === 'password' && <Loader2 size={14} className="animate-spin" />}
+                  <span>修改密码</span>
+                </button>
+              </form>
+            </div>
+          )}
+        </section>
+
+        {/* 我的数据 */}
+        <section className={cardClassName}>
+          <div className="flex items-center space-x-2 mb-2">
+            <Database size={18} className="text-blue-500" />
+            <h2 className="font-semibold text-gray-900 dark:text-gray-100">我的数据</h2>
+          </div>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+            下载包含个人资料、全部对话和分享链接的JSON文件。
+          </p>
+          <button
+            onClick={handleExportData}
+            disabled={isExporting}
+            className="btn-secondary text-sm flex items-center space-x-2 disabled:opacity-50"
+          >
+            {isExporting ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+            <span>{isExporting ? '正在准备数据...' : '下载我的全部数据'}</span>
+          </button>
+        </section>
+
+        {/* 删除账户 */}
+        <section className={`${cardClassName} border-red-200 dark:border-red-900`}>
+          <div className="flex items-center space-x-2 mb-2">
+            <AlertTriangle size={18} className="text-red-500" />
+            <h2 className="font-semibold text-red-600 dark:text-red-400">删除账户</h2>
+          </div>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+            账户及其全部对话、分享链接将被永久删除，且无法恢复。
+          </p>
+          {!showDeleteConfirm ? (
+            <button
+              onClick={() => setShowDeleteConfirm(true)}
+              className="px-4 py-2 rounded-lg text-sm font-medium text-red-600 dark:text-red-400 border border-red-300 dark:border-red-800 hover:bg-red-50 dark:hover:bg-red-900/20"
+            >
+              删除我的账户
+            </button>
+          ) : (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-700 dark:text-gray-300">
+                请输入“{DELETE_CONFIRM_TEXT}”以确认：
+              </p>
+              <input
+                type="text"
+                value={deleteForm.confirmText}
+                onChange={(e) => setDeleteForm(prev => ({ ...prev, confirmText: e.target.value }))}
+                placeholder={DELETE_CONFIRM_TEXT}
+                className={inputClassName}
+              />
+              {!user?.is_anonymous && (
+                <input
+                  type="password"
+                  value={deleteForm.password}
+                  onChange={(e) => setDeleteForm(prev => ({ ...prev, password: e.target.value }))}
+                  placeholder="当前密码（通过第三方登录的账户可不填）"
+                  className={inputClassName}
+                />
+              )}
+              <div className="flex justify-end space-x-2 pt-1">
+                <button
+                  onClick={() => {
+                    setShowDeleteConfirm(false);
+                    setDeleteForm({ confirmText: '', password: '' });
+                  }}
+                  disabled={isDeleting}
+                  className="btn-secondary text-sm"
+                >
+                  取消
+                </button>
+                <button
+                  onClick={handleDeleteAccount}
+                  disabled={isDeleting || deleteForm.confirmText !== DELETE_CONFIRM_TEXT}
+                  className="px-4 py-2 rounded-lg text-sm font-medium bg-red-500 hover:bg-red-600 text-white disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+                >
+                  {isDeleting ? <Loader2 size={14} className="animate-spin" /> : <Trash2 size={14} />}
+                  <span>永久删除</span>
+                </button>
+              </div>
+            </div>
+          )}
+        </section>
+      </main>
+
+      {/* 注册账户 */}
+      <UpgradeAccountDialog
+        isOpen={showUpgrade}
+        onUpgraded={() => {
+          refreshUser().catch(error => console.error('获取用户信息失败:', error));
+        }}
+        onClose={() => setShowUpgrade(false)}
+      />
+    </div>
+  );
+};
+
+export default AccountSettings;
\ No newline at end of file
@@ -0,0 +1,159 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Bot, Lock, Loader2, KeyRound } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { apiService } from '../services/api';
+import { supabaseService } from '../services/supabaseService';
+import { getSafeRedirect, LOGIN_PATH } from '../utils/routes';
+import toast from 'react-hot-toast';
+
+// Supabase邮件链接、第三方登录和重置密码的回调页面
+const AuthCallback: React.FC = () => {
+  const { login, upgradeAccount } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [status, setStatus] = useState<'loading' | 'recovery' | 'error'>('loading');
+  const [error, setError] = useState<string | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const handledRef = useRef(false);
+
+  const mode = searchParams.get('mode');
+  const isRecovery = mode === 'recovery';
+
+  // 用Supabase会话换取后端token并返回登录前的页面，升级匿名账户时迁移其对话
+  const exchangeSession = useCallback(async (accessToken: string) => {
+    // 在其他浏览器打开链接时没有匿名账户，直接登录
+    if (mode === 'upgrade' && apiService.getAuthToken()) {
+      await upgradeAccount({ supabase_token: accessToken });
+    } else {
+      await login({ supabase_token: accessToken, anonymous: false });
+    }
+    navigate(getSafeRedirect(searchParams.get('redirect')), { replace: true });
+  }, [mode, upgradeAccount, login, navigate, searchParams]);
+
+  // 解析回调中的会话，只处理一次
+  useEffect(() => {
+    if (handledRef.current) return;
+    handledRef.current = true;
+
+    const handleCallback = async () => {
+      // 链接过期等错误会放在URL参数或锚点中
+      const hashParams = new URLSearchParams(window.location.hash.slice(1));
+      const callbackError = searchParams.get('error_description') || hashParams.get('error_description');
+      if (callbackError) {
+        throw new Error(callbackError);
+      }
+
+      const session = await supabaseService.getSession();
+      if (!session) {
+        throw new Error('登录链接无效或已过期');
+      }
+
+      if (isRecovery) {
+        setStatus('recovery');
+      } else {
+        await exchangeSession(session.access_token);
+      }
+    };
+
+    handleCallback().catch((err: any) => {
+      console.error('处理登录回调失败:', err);
+      setError(err.message || '登录失败');
+      setStatus('error');
+    });
+  }, [exchangeSession, isRecovery, searchParams]);
+
+  // 设置新密码后直接登录
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < 6) {
+      toast.error('密码至少需要6位');
+      return;
+    }
+    if (password !== confirmPassword) {
+      toast.error('两次输入的密码不一致');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const session = await supabaseService.updatePassword(password);
+      toast.success('密码已重置');
+      if (session) {
+        await exchangeSession(session.access_token);
+      } else {
+        navigate(LOGIN_PATH, { replace: true });
+      }
+    } catch (err: any) {
+      console.error('重置密码失败:', err);
+      toast.error(err.message || '重置密码失败');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-8">
+        {status === 'loading' && (
+          <div className="text-center">
+            <Loader2 size={48} className="animate-spin text-blue-500 mx-auto mb-4" />
+            <p className="text-gray-600 dark:text-gray-400">正在登录...</p>
+          </div>
+        )}
+
+        {status === 'error' && (
+          <div className="text-center">
+            <Bot size={48} className="mx-auto text-gray-400 mb-4" />
+            <p className="text-gray-700 dark:text-gray-300 mb-6">{error}</p>
+            <button
+              onClick={() => navigate(LOGIN_PATH, { replace: true })}
+              className="btn-primary text-sm"
+            >
+              返回登录
+            </button>
+          </div>
+        )}
+
+        {status === 'recovery' && (
+          <form onSubmit={handleResetPassword} className="space-y-6">
+            <div className="text-center">
+              <KeyRound size={48} className="mx-auto text-blue-500 mb-4" />
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                设置新密码
+              </h3>
+            </div>
+            {[
+              { value: password, onChange: setPassword, placeholder: '请输入新密码' },
+              { value: confirmPassword, onChange: setConfirmPassword, placeholder: '请再次输入新密码' },
+            ].map((field, index) => (
+              <div key={index} className="relative">
+                <Lock size={20} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                <input
+                  type="password"
+                  value={field.value}
+                  onChange={(e) => field.onChange(e.target.value)}
+                  placeholder={field.placeholder}
+                  className="w-full pl-10 pr-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400"
+                  required
+                />
+              </div>
+            ))}
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200 flex items-center justify-center space-x-2"
+            >
+              {isSubmitting && <Loader2 size={20} className="animate-spin" />}
+              <span>{isSubmitting ? '提交中...' : '确认并登录'}</span>
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuthCallback;
\ No newline at end of file
@@ -3,15 +3,35 @@ import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import { User, Bot, Copy, Check } from 'lucide-react';
+import { User, Bot, Copy, Check, RefreshCw, Pencil, ChevronLeft, ChevronRight, Sparkles, Clock, AlertCircle, X, Link, FileText, Download, Volume2, VolumeX } from 'lucide-react';
 import { ChatBubbleProps, MessageRole } from '../types';
+import { isImageType, formatFileSize } from '../utils/attachments';
 import { useState } from 'react';
 import clsx from 'clsx';
 
-const ChatBubble: React.FC<ChatBubbleProps> = ({ message, isLoading = false }) => {
+const ChatBubble: React.FC<ChatBubbleProps> = ({
+  message,
+  isLoading = false,
+  branchInfo,
+  actionsDisabled = false,
+  onSwitchBranch,
+  onRegenerate,
+  onEdit,
+  onCopyLink,
+  onRetry,
+  onDiscard,
+  isHighlighted = false,
+  isReadingAloud = false,
+  onReadAloud,
+}) => {
   const [copied, setCopied] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editContent, setEditContent] = useState(message.content);
   const isUser = message.role === MessageRole.USER;
   const isAssistant = message.role === MessageRole.ASSISTANT;
+  const isSystem = message.role === MessageRole.SYSTEM;
+  const hasBranches = !!branchInfo && branchInfo.total > 1;
+  const isUnsent = !!message.send_status;
 
   const handleCopy = async (text: string) => {
     try {
@@ -23,6 +43,22 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, isLoading = false }) =
     }
   };
 
+  // 开始编辑用户消息
+  const handleStartEdit = () => {
+    setEditContent(message.content);
+    setIsEditing(true);
+  };
+
+  // 提交编辑，作为新版本重新发送
+  const handleSubmitEdit = () => {
+    const trimmed = editContent.trim();
+    if (!trimmed || !onEdit) return;
+    setIsEditing(false);
+    if (trimmed !== message.content) {
+      onEdit(trimmed);
+    }
+  };
+
   const formatTime = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleTimeString('zh-CN', {
@@ -31,8 +67,26 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, isLoading = false }) =
     });
   };
 
+  // 系统提示词居中显示
+  if (isSystem) {
+    return (
+      <div className="flex w-full justify-center mb-4 animate-fade-in">
+        <div className="max-w-[85%] md:max-w-[70%] w-full rounded-xl border border-dashed border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 px-4 py-3">
+          <div className="flex items-center space-x-1.5 text-xs font-medium text-amber-700 dark:text-amber-400 mb-1">
+            <Sparkles size={12} />
+            <span>系统提示词</span>
+          </div>
+          <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words">
+            {message.content}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div
+      id={`m-${message.id}`}
       className={clsx(
         'flex w-full mb-4 animate-fade-in',
         isUser ? 'justify-end' : 'justify-start'
@@ -70,16 +124,88 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, isLoading = false }) =
         >
           <div
             className={clsx(
-              'px-4 py-3 rounded-2xl shadow-sm relative',
+              'px-4 py-3 rounded-2xl shadow-sm relative transition-shadow duration-500',
+              isUnsent && 'opacity-70',
+              isHighlighted && 'ring-2 ring-amber-400 ring-offset-2 dark:ring-offset-gray-900',
               isUser
                 ? 'bg-blue-500 text-white rounded-br-md'
                 : 'bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 rounded-bl-md border border-gray-200 dark:border-gray-700'
             )}
           >
+            {/* 附件：图片直接显示，其他文件显示为卡片 */}
+            {message.attachments && message.attachments.length > 0 && (
+              <div className={clsx('flex flex-wrap gap-2', message.content && 'mb-2')}>
+                {message.attachments.map(attachment => isImageType(attachment.mime_type) ? (
+                  <a
+                    key={attachment.id}
+                    href={attachment.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    title={attachment.name}
+                  >
+                    <img
+                      src={attachment.thumbnail_url || attachment.url}
+                      alt={attachment.name}
+                      loading="lazy"
+                      className="max-h-48 max-w-[240px] rounded-lg object-cover"
+                    />
+                  </a>
+                ) : (
+                  <a
+                    key={attachment.id}
+                    href={attachment.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    download={attachment.name}
+                    className={clsx(
+                      'flex items-center space-x-2 rounded-lg px-3 py-2 max-w-[240px] transition-colors',
+                      isUser
+                        ? 'bg-blue-400/50 hover:bg-blue-400/70'
+                        : 'bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600'
+                    )}
+                  >
+                    <FileText size={20} className="flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-xs font-medium truncate">{attachment.name}</p>
+                      <p className={clsx('text-xs', isUser ? 'text-blue-100' : 'text-gray-500 dark:text-gray-400')}>
+                        {formatFileSize(attachment.size)}
+                      </p>
+                    </div>
+                    <Download size={14} className="flex-shrink-0 opacity-70" />
+                  </a>
+                ))}
+              </div>
+            )}
+
             {/* 消息内容 */}
             <div className="message-content">
-              {isUser ? (
-                <p className="whitespace-pre-wrap break-words">{message.content}</p>
+              {isUser && isEditing ? (
+                <div className="flex flex-col space-y-2 min-w-[240px]">
+                  <textarea
+                    value={editContent}
+                    onChange={(e) => setEditContent(e.target.value)}
+                    rows={3}
+                    autoFocus
+                    className="w-full resize-y rounded-lg bg-white text-gray-900 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-300"
+                  />
+                  <div className="flex justify-end space-x-2">
+                    <button
+                      onClick={() => setIsEditing(false)}
+                      className="px-3 py-1 text-xs rounded-md bg-blue-400 hover:bg-blue-300 text-white"
+                    >
+                      取消
+                    </button>
+                    <button
+                      onClick={handleSubmitEdit}
+                      disabled={!editContent.trim()}
+                      className="px-3 py-1 text-xs rounded-md bg-white text-blue-600 hover:bg-blue-50 disabled:opacity-50"
+                    >
+                      发送
+                    </button>
+                  </div>
+                </div>
+              ) : isUser ? (
+                message.content && <p className="whitespace-pre-wrap break-words">{message.content}</p>
               ) : (
                 <div className="prose prose-sm max-w-none dark:prose-invert">
                   {isLoading && !message.content ? (
@@ -187,14 +313,131 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, isLoading = false }) =
             )}
           </div>
 
-          {/* 时间戳 */}
+          {/* 时间戳和操作 */}
           <div
             className={clsx(
-              'text-xs text-gray-500 mt-1 px-1',
-              isUser ? 'text-right' : 'text-left'
+              'flex items-center text-xs text-gray-500 mt-1 px-1 space-x-2',
+              isUser ? 'justify-end' : 'justify-start'
             )}
           >
-            {formatTime(message.created_at)}
+            {/* 版本切换 */}
+            {hasBranches && onSwitchBranch && (
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={() => onSwitchBranch(-1)}
+                  disabled={actionsDisabled || branchInfo!.index <= 0}
+                  className="p-0.5 rounded hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                  title="上一个版本"
+                >
+                  <ChevronLeft size={12} />
+                </button>
+                <span>{branchInfo!.index + 1}/{branchInfo!.total}</span>
+                <button
+                  onClick={() => onSwitchBranch(1)}
+                  disabled={actionsDisabled || branchInfo!.index >= branchInfo!.total - 1}
+                  className="p-0.5 rounded hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                  title="下一个版本"
+                >
+                  <ChevronRight size={12} />
+                </button>
+              </div>
+            )}
+
+            {/* 发送状态 (离线发件箱中的用户消息) */}
+            {message.send_status === 'pending' && (
+              <span className="flex items-center space-x-1 text-gray-400">
+                <Clock size={12} />
+                <span>等待发送</span>
+              </span>
+            )}
+            {message.send_status === 'failed' && (
+              <span className="flex items-center space-x-1 text-red-500">
+                <AlertCircle size={12} />
+                <span>发送失败</span>
+              </span>
+            )}
+            {isUnsent && onRetry && (
+              <button
+                onClick={onRetry}
+                className="flex items-center space-x-0.5 px-1 rounded text-blue-500 hover:bg-gray-200 dark:hover:bg-gray-700"
+                title="立即重试"
+              >
+                <RefreshCw size={12} />
+                <span>重试</span>
+              </button>
+            )}
+            {isUnsent && onDiscard && (
+              <button
+                onClick={onDiscard}
+                className="flex items-center space-x-0.5 px-1 rounded text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700"
+                title="丢弃该消息"
+              >
+                <X size={12} />
+                <span>丢弃</span>
+              </button>
+            )}
+
+            {/* 编辑 (仅已发送的用户消息) */}
+            {isUser && onEdit && !isEditing && !isUnsent && (
+              <button
+                onClick={handleStartEdit}
+                disabled={actionsDisabled}
+                className="opacity-0 group-hover:opacity-100 transition-opacity p-0.5 rounded hover:bg-gray-200 dark:hover:bg-gray-700 disabled:cursor-not-allowed"
+                title="编辑并重新发送"
+              >
+                <Pencil size={12} />
+              </button>
+            )}
+
+            {/* 重新生成 (仅AI消息) */}
+            {isAssistant && onRegenerate && message.content && (
+              <button
+                onClick={onRegenerate}
+                disabled={actionsDisabled}
+                className="opacity-0 group-hover:opacity-100 transition-opacity p-0.5 rounded hover:bg-gray-200 dark:hover:bg-gray-700 disabled:cursor-not-allowed"
+                title="重新生成"
+              >
+                <RefreshCw size={12} />
+              </button>
+            )}
+
+            {/* 朗读 (仅AI消息)，朗读中保持显示以便停止 */}
+            {isAssistant && onReadAloud && message.content && (
+              <button
+                onClick={onReadAloud}
+                className={clsx(
+                  'transition-opacity p-0.5 rounded hover:bg-gray-200 dark:hover:bg-gray-700',
+                  isReadingAloud ? 'opacity-100 text-blue-500' : 'opacity-0 group-hover:opacity-100'
+                )}
+                title={isReadingAloud ? '停止朗读' : '朗读'}
+              >
+                {isReadingAloud ? <VolumeX size={12} /> : <Volume2 size={12} />}
+              </button>
+            )}
+
+            {/* 复制消息链接 */}
+            {onCopyLink && !isUnsent && (
+              <button
+                onClick={onCopyLink}
+                className="opacity-0 group-hover:opacity-100 transition-opacity p-0.5 rounded hover:bg-gray-200 dark:hover:bg-gray-700"
+                title="复制消息链接"
+              >
+                <Link size={12} />
+              </button>
+            )}
+
+            <span>{formatTime(message.created_at)}</span>
+
+            {/* 模型和token用量 (仅AI消息) */}
+            {isAssistant && message.model_used && (
+              <span className="text-gray-400">{message.model_used}</span>
+            )}
+            {isAssistant && message.tokens_used !== undefined && (
+              <span className="text-gray-400">{message.tokens_used} tokens</span>
+            )}
+            {message.is_truncated && (
+              <span className="text-amber-600 dark:text-amber-400">已停止生成</span>
+            )}
           </div>
         </div>
       </div>
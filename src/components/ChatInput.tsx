@@ -1,16 +1,63 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Loader2 } from 'lucide-react';
+import { Send, Loader2, Square, Paperclip, X, FileText, RotateCw, Upload, Mic } from 'lucide-react';
 import { ChatInputProps } from '../types';
+import { useAttachments } from '../hooks/useAttachments';
+import { useVoiceInput } from '../hooks/useVoiceInput';
+import { ACCEPTED_ATTACHMENT_TYPES, formatFileSize } from '../utils/attachments';
 import clsx from 'clsx';
 
 const ChatInput: React.FC<ChatInputProps> = ({
   onSendMessage,
+  onStop,
   disabled = false,
+  isStreaming = false,
   placeholder = '输入消息...',
 }) => {
   const [message, setMessage] = useState('');
   const [isComposing, setIsComposing] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // 拖拽经过子元素时会多次触发dragenter/dragleave，用计数判断是否离开
+  const dragDepthRef = useRef(0);
+  const {
+    attachments,
+    isUploading,
+    uploadedAttachments,
+    addFiles,
+    removeAttachment,
+    retryAttachment,
+    clearAttachments,
+  } = useAttachments();
+
+  // 开始录音时已输入的文字，识别结果追加在其后
+  const voiceBaseRef = useRef('');
+  // 发送消息后忽略本次录音迟到的识别结果
+  const voiceActiveRef = useRef(false);
+  const {
+    isSupported: isVoiceSupported,
+    isRecording,
+    isTranscribing,
+    startRecording,
+    stopRecording,
+  } = useVoiceInput((text) => {
+    if (voiceActiveRef.current) {
+      setMessage(voiceBaseRef.current + text);
+    }
+  });
+
+  const handleToggleRecording = () => {
+    if (isRecording) {
+      stopRecording();
+      return;
+    }
+    voiceBaseRef.current = message && !/\s$/.test(message) ? `${message} ` : message;
+    voiceActiveRef.current = true;
+    startRecording();
+  };
+
+  // 有文字或已上传的附件，且没有正在上传的附件时可以发送
+  const canSend = !disabled && !isUploading && (!!message.trim() || uploadedAttachments.length > 0);
 
   // 自动调整文本框高度
   const adjustTextareaHeight = () => {
@@ -32,9 +79,14 @@ const ChatInput: React.FC<ChatInputProps> = ({
   // 处理发送消息
   const handleSendMessage = () => {
     const trimmedMessage = message.trim();
-    if (trimmedMessage && !disabled) {
-      onSendMessage(trimmedMessage);
+    if (canSend) {
+      voiceActiveRef.current = false;
+      if (isRecording) {
+        stopRecording();
+      }
+      onSendMessage(trimmedMessage, uploadedAttachments.length > 0 ? uploadedAttachments : undefined);
       setMessage('');
+      clearAttachments();
       // 重置文本框高度
       if (textareaRef.current) {
         textareaRef.current.style.height = 'auto';
@@ -59,6 +111,51 @@ const ChatInput: React.FC<ChatInputProps> = ({
     }
   };
 
+  // 粘贴图片或文件时作为附件上传
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length > 0) {
+      e.preventDefault();
+      addFiles(files);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    addFiles(files);
+  };
+
+  // 拖拽文件到输入区域上传
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    dragDepthRef.current++;
+    setIsDragging(true);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+  };
+
+  const handleDragLeave = () => {
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) {
+      setIsDragging(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDragging(false);
+    if (!disabled) {
+      addFiles(Array.from(e.dataTransfer.files));
+    }
+  };
+
   // 处理中文输入法
   const handleCompositionStart = () => {
     setIsComposing(true);
@@ -81,8 +178,76 @@ const ChatInput: React.FC<ChatInputProps> = ({
   }, [message]);
 
   return (
-    <div className="border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4">
+    <div
+      className="relative border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-4"
+      onDragEnter={handleDragEnter}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {/* 拖拽上传提示 */}
+      {isDragging && (
+        <div className="absolute inset-2 z-10 flex items-center justify-center rounded-2xl border-2 border-dashed border-blue-400 bg-blue-50/90 dark:bg-gray-800/90 text-blue-600 dark:text-blue-300 pointer-events-none">
+          <Upload size={20} className="mr-2" />
+          <span className="text-sm font-medium">松开以添加附件</span>
+        </div>
+      )}
+
       <div className="max-w-4xl mx-auto">
+        {/* 附件预览 */}
+        {attachments.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-3">
+            {attachments.map(item => (
+              <div
+                key={item.local_id}
+                className={clsx(
+                  'relative group rounded-lg border overflow-hidden bg-gray-50 dark:bg-gray-700',
+                  item.status === 'failed' ? 'border-red-300 dark:border-red-700' : 'border-gray-200 dark:border-gray-600'
+                )}
+                title={item.error || item.file.name}
+              >
+                {item.preview_url ? (
+                  <img src={item.preview_url} alt={item.file.name} className="w-16 h-16 object-cover" />
+                ) : (
+                  <div className="flex items-center space-x-2 h-16 px-3 max-w-[200px]">
+                    <FileText size={20} className="text-gray-400 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-xs text-gray-700 dark:text-gray-200 truncate">{item.file.name}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{formatFileSize(item.file.size)}</p>
+                    </div>
+                  </div>
+                )}
+
+                {/* 上传进度 */}
+                {item.status === 'uploading' && (
+                  <div className="absolute inset-x-0 bottom-0 h-1 bg-gray-200 dark:bg-gray-600">
+                    <div className="h-full bg-blue-500 transition-all" style={{ width: `${item.progress}%` }} />
+                  </div>
+                )}
+
+                {/* 上传失败，点击重试 */}
+                {item.status === 'failed' && (
+                  <button
+                    onClick={() => retryAttachment(item.local_id)}
+                    className="absolute inset-0 flex items-center justify-center bg-black/40 text-white"
+                    title="上传失败，点击重试"
+                  >
+                    <RotateCw size={16} />
+                  </button>
+                )}
+
+                <button
+                  onClick={() => removeAttachment(item.local_id)}
+                  className="absolute top-0.5 right-0.5 p-0.5 rounded-full bg-black/60 text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="移除附件"
+                >
+                  <X size={12} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className="relative flex items-end space-x-3">
           {/* 文本输入区域 */}
           <div className="flex-1 relative">
@@ -93,13 +258,15 @@ const ChatInput: React.FC<ChatInputProps> = ({
               onKeyDown={handleKeyDown}
               onCompositionStart={handleCompositionStart}
               onCompositionEnd={handleCompositionEnd}
+              onPaste={handlePaste}
               placeholder={placeholder}
               disabled={disabled}
               rows={1}
               className={clsx(
                 'w-full resize-none rounded-2xl border border-gray-300 dark:border-gray-600',
                 'bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100',
-                'px-4 py-3 pr-12 text-sm leading-5',
+                'pl-12 py-3 text-sm leading-5',
+                isVoiceSupported ? 'pr-24' : 'pr-12',
                 'placeholder-gray-500 dark:placeholder-gray-400',
                 'focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent',
                 'transition-all duration-200',
@@ -112,31 +279,81 @@ const ChatInput: React.FC<ChatInputProps> = ({
               }}
             />
             
-            {/* 发送按钮 */}
+            {/* 添加附件 */}
             <button
-              onClick={handleSendMessage}
-              disabled={disabled || !message.trim()}
-              className={clsx(
-                'absolute right-2 bottom-2 p-2 rounded-full transition-all duration-200',
-                'flex items-center justify-center',
-                message.trim() && !disabled
-                  ? 'bg-blue-500 hover:bg-blue-600 text-white shadow-md hover:shadow-lg transform hover:scale-105'
-                  : 'bg-gray-300 dark:bg-gray-600 text-gray-500 dark:text-gray-400 cursor-not-allowed',
-                'focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2'
-              )}
+              onClick={() => fileInputRef.current?.click()}
+              disabled={disabled}
+              title="添加图片或文件"
+              className="absolute left-2 bottom-2 p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors"
             >
-              {disabled ? (
-                <Loader2 size={18} className="animate-spin" />
-              ) : (
-                <Send size={18} />
-              )}
+              <Paperclip size={18} />
             </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ACCEPTED_ATTACHMENT_TYPES}
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            
+            {/* 语音输入 */}
+            {isVoiceSupported && (
+              <button
+                onClick={handleToggleRecording}
+                disabled={disabled || isTranscribing}
+                title={isRecording ? '停止录音' : isTranscribing ? '正在识别...' : '语音输入'}
+                className={clsx(
+                  'absolute right-12 bottom-2 p-2 rounded-full transition-colors disabled:opacity-50',
+                  isRecording
+                    ? 'bg-red-500 hover:bg-red-600 text-white animate-pulse'
+                    : 'text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-600'
+                )}
+              >
+                {isTranscribing ? <Loader2 size={18} className="animate-spin" /> : <Mic size={18} />}
+              </button>
+            )}
+            
+            {/* 发送按钮，流式回复中切换为停止生成按钮 */}
+            {isStreaming && onStop ? (
+              <button
+                onClick={onStop}
+                title="停止生成"
+                className={clsx(
+                  'absolute right-2 bottom-2 p-2 rounded-full transition-all duration-200',
+                  'flex items-center justify-center',
+                  'bg-gray-700 hover:bg-gray-800 dark:bg-gray-200 dark:hover:bg-gray-300 text-white dark:text-gray-900 shadow-md',
+                  'focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2'
+                )}
+              >
+                <Square size={14} fill="currentColor" />
+              </button>
+            ) : (
+              <button
+                onClick={handleSendMessage}
+                disabled={!canSend}
+                className={clsx(
+                  'absolute right-2 bottom-2 p-2 rounded-full transition-all duration-200',
+                  'flex items-center justify-center',
+                  canSend
+                    ? 'bg-blue-500 hover:bg-blue-600 text-white shadow-md hover:shadow-lg transform hover:scale-105'
+                    : 'bg-gray-300 dark:bg-gray-600 text-gray-500 dark:text-gray-400 cursor-not-allowed',
+                  'focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2'
+                )}
+              >
+                {disabled || isUploading ? (
+                  <Loader2 size={18} className="animate-spin" />
+                ) : (
+                  <Send size={18} />
+                )}
+              </button>
+            )}
           </div>
         </div>
         
         {/* 提示文本 */}
         <div className="mt-2 text-xs text-gray-500 dark:text-gray-400 text-center">
-          按 Enter 发送消息，Shift + Enter 换行
+          按 Enter 发送消息，Shift + Enter 换行，可粘贴或拖入图片和文件
         </div>
       </div>
     </div>
@@ -1,11 +1,23 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { MessageRole } from '../types';
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { useLocation, useMatch, useNavigate } from 'react-router-dom';
+import { Attachment, ChatMessage, Conversation, MessageRole } from '../types';
 import ChatBubble from './ChatBubble';
 import ChatInput from './ChatInput';
 import ConversationList from './ConversationList';
+import GenerationSettingsPanel from './GenerationSettingsPanel';
+import PersonaManager from './PersonaManager';
+import ExportDialog from './ExportDialog';
+import ImportDialog from './ImportDialog';
+import ShareDialog from './ShareDialog';
+import UpgradeAccountDialog from './UpgradeAccountDialog';
+import NotificationCenter from './NotificationCenter';
 import { useAuth } from '../hooks/useAuth';
 import { useChat } from '../hooks/useChat';
-import { Bot, Menu, X, Settings, LogOut, User } from 'lucide-react';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { useReadAloud } from '../hooks/useReadAloud';
+import { getConversationPath, parseMessageHash, LOGIN_PATH, SETTINGS_PATH } from '../utils/routes';
+import { copyToClipboard } from '../utils/share';
+import { Bot, Menu, X, Settings, LogOut, User, Sparkles, WifiOff, Loader2, Download, Upload, Share2, ShieldCheck, SlidersHorizontal } from 'lucide-react';
 import clsx from 'clsx';
 import toast from 'react-hot-toast';
 
@@ -16,45 +28,240 @@ const ChatInterface: React.FC = () => {
     conversations,
     currentConversation,
     isLoading,
+    hasMoreMessages,
+    isLoadingOlderMessages,
+    loadOlderMessages,
+    totalConversations,
+    hasMoreConversations,
+    isLoadingMoreConversations,
+    loadMoreConversations,
+    refreshConversations,
+    showArchived,
+    setShowArchived,
+    renameConversation,
+    pinConversation,
+    archiveConversation,
+    isStreaming,
     sendStreamMessage,
+    stopGeneration,
+    regenerateMessage,
+    editMessage,
+    switchBranch,
+    getBranchInfo,
+    retryMessage,
+    discardMessage,
+    generationSettings,
+    updateGenerationSettings,
+    activePersona,
     selectConversation,
+    closeConversation,
     createNewConversation,
     deleteConversation,
+    revealMessage,
   } = useChat();
 
+  const isOnline = useOnlineStatus();
+  const { readingMessageId, isSupported: isReadAloudSupported, toggleReadAloud } = useReadAloud(messages, isStreaming);
+  const navigate = useNavigate();
+  const location = useLocation();
+  // 当前地址中的对话ID（/c/:conversationId）
+  const routeConversationId = useMatch('/c/:conversationId')?.params.conversationId ?? null;
+  const routeConversationRef = useRef<string | null>(routeConversationId);
+  routeConversationRef.current = routeConversationId;
+  const previousRouteConversationRef = useRef<string | null>(null);
+  const previousConversationRef = useRef<string | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [showUserMenu, setShowUserMenu] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showPersonas, setShowPersonas] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<number | null>(null);
+  // 导出对话框：undefined为关闭，null为导出全部对话
+  const [exportTarget, setExportTarget] = useState<Conversation | null | undefined>(undefined);
+  const [showImport, setShowImport] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+  const [showUpgrade, setShowUpgrade] = useState(false);
+  // 本次会话中已关闭保存对话的提醒
+  const [upgradeBannerDismissed, setUpgradeBannerDismissed] = useState(
+    () => sessionStorage.getItem('upgrade_banner_dismissed') === '1'
+  );
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  // 加载更早消息前的滚动高度和第一条消息，用于加载后保持滚动位置
+  const scrollRestoreRef = useRef<{ scrollHeight: number; firstMessageId: number } | null>(null);
+  // 等待渲染后滚动到的消息（搜索结果定位）
+  const scrollTargetRef = useRef<number | null>(null);
 
   // 自动滚动到底部
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
-  useEffect(() => {
+  useLayoutEffect(() => {
+    const container = chatContainerRef.current;
+    const restore = scrollRestoreRef.current;
+    
+    // 定位到搜索结果中的消息
+    if (scrollTargetRef.current !== null) {
+      const target = document.getElementById(`m-${scrollTargetRef.current}`);
+      if (target) {
+        target.scrollIntoView({ block: 'center' });
+        scrollTargetRef.current = null;
+        return;
+      }
+    }
+    
+    // 在顶部插入了更早的消息，保持当前可见内容不动
+    if (container && restore && messages.length > 0 && messages[0].id !== restore.firstMessageId) {
+      container.scrollTop += container.scrollHeight - restore.scrollHeight;
+      scrollRestoreRef.current = null;
+      return;
+    }
+    
     scrollToBottom();
   }, [messages]);
 
+  // 高亮数秒后自动取消
+  useEffect(() => {
+    if (highlightedMessageId === null) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 3000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
+  // 切换对话时放弃未完成的滚动位置恢复
+  useEffect(() => {
+    scrollRestoreRef.current = null;
+  }, [currentConversation]);
+
+  // 加载更早的消息
+  const handleLoadOlderMessages = () => {
+    const container = chatContainerRef.current;
+    if (!container || !hasMoreMessages || isLoadingOlderMessages || messages.length === 0) return;
+    
+    scrollRestoreRef.current = {
+      scrollHeight: container.scrollHeight,
+      firstMessageId: messages[0].id,
+    };
+    loadOlderMessages();
+  };
+
+  // 滚动到顶部附近时自动加载更早的消息
+  const handleChatScroll = () => {
+    if (chatContainerRef.current && chatContainerRef.current.scrollTop < 80) {
+      handleLoadOlderMessages();
+    }
+  };
+
+  // 切换到对应对话并定位、高亮消息
+  const openMessage = async (conversationId: string, messageId: number) => {
+    scrollTargetRef.current = messageId;
+    const found = await revealMessage(conversationId, messageId);
+    if (found) {
+      setHighlightedMessageId(messageId);
+    } else {
+      scrollTargetRef.current = null;
+      toast.error('未找到该消息，可能已被删除');
+    }
+  };
+
+  // 地址变化时切换对话（包括浏览器前进后退和 #m-<消息ID> 锚点）
+  const handleRouteChange = (previousRouteId: string | null) => {
+    if (!routeConversationId) {
+      if (previousRouteId) {
+        closeConversation();
+      }
+      return;
+    }
+    
+    const messageId = parseMessageHash(location.hash);
+    if (messageId !== null) {
+      openMessage(routeConversationId, messageId);
+    } else if (routeConversationId !== currentConversation) {
+      selectConversation(routeConversationId);
+    }
+  };
+  // effect只响应地址变化，currentConversation变化由下方的effect同步到地址
+  const handleRouteChangeRef = useRef(handleRouteChange);
+  handleRouteChangeRef.current = handleRouteChange;
+
+  useEffect(() => {
+    const previousRouteId = previousRouteConversationRef.current;
+    previousRouteConversationRef.current = routeConversationId;
+    handleRouteChangeRef.current(previousRouteId);
+  }, [routeConversationId, location.hash, location.key]);
+
+  // 当前对话变化时（新建、首条消息创建对话、删除）同步地址
+  useEffect(() => {
+    const previousConversation = previousConversationRef.current;
+    previousConversationRef.current = currentConversation;
+    
+    if (currentConversation && currentConversation !== routeConversationRef.current) {
+      // 从空白对话开始时替换地址，避免后退到空白页
+      navigate(getConversationPath(currentConversation), { replace: !previousConversation });
+    } else if (!currentConversation && previousConversation && routeConversationRef.current) {
+      navigate('/', { replace: true });
+    }
+  }, [currentConversation, navigate]);
+
+  // 选择对话
+  const handleSelectConversation = (conversationId: string) => {
+    if (conversationId === currentConversation && !location.hash) return;
+    navigate(getConversationPath(conversationId));
+  };
+
+  // 打开搜索结果
+  const handleOpenSearchResult = (conversationId: string, messageId: number) => {
+    navigate(getConversationPath(conversationId, messageId));
+  };
+
+  // 复制消息链接
+  const handleCopyMessageLink = async (messageId: number) => {
+    if (!currentConversation) return;
+    const url = `${window.location.origin}${getConversationPath(currentConversation, messageId)}`;
+    if (await copyToClipboard(url)) {
+      toast.success('消息链接已复制');
+    } else {
+      toast.error('复制失败');
+    }
+  };
+
   // 处理发送消息
-  const handleSendMessage = async (message: string) => {
+  const handleSendMessage = async (message: string, attachments?: Attachment[]) => {
     try {
-      await sendStreamMessage(message);
+      await sendStreamMessage(message, attachments);
     } catch (error) {
       console.error('发送消息失败:', error);
     }
   };
 
+  // 关闭保存对话提醒，本次会话内不再显示
+  const handleDismissUpgradeBanner = () => {
+    sessionStorage.setItem('upgrade_banner_dismissed', '1');
+    setUpgradeBannerDismissed(true);
+  };
+
   // 处理登出
   const handleLogout = async () => {
     try {
       await logout();
       setShowUserMenu(false);
+      navigate(LOGIN_PATH, { replace: true });
     } catch (error) {
       console.error('登出失败:', error);
     }
   };
 
+  // 当前角色的系统提示词，后端历史中已包含系统消息时不重复显示
+  const personaMessage: ChatMessage | null =
+    activePersona && !messages.some((msg) => msg.role === MessageRole.SYSTEM)
+      ? {
+          id: 0,
+          role: MessageRole.SYSTEM,
+          content: activePersona.system_prompt,
+          conversation_id: currentConversation || undefined,
+          created_at: new Date().toISOString(),
+        }
+      : null;
+
   // 检查是否有正在加载的消息
   const hasLoadingMessage = messages.some(
     (msg) => msg.role === MessageRole.ASSISTANT && !msg.content
@@ -73,9 +280,20 @@ const ChatInterface: React.FC = () => {
         <ConversationList
           conversations={conversations}
           currentConversation={currentConversation || undefined}
-          onSelectConversation={selectConversation}
-          onNewConversation={createNewConversation}
+          onSelectConversation={handleSelectConversation}
+          onNewConversation={() => createNewConversation()}
           onDeleteConversation={deleteConversation}
+          totalConversations={totalConversations}
+          hasMore={hasMoreConversations}
+          isLoadingMore={isLoadingMoreConversations}
+          onLoadMore={loadMoreConversations}
+          onOpenSearchResult={handleOpenSearchResult}
+          showArchived={showArchived}
+          onToggleArchived={() => setShowArchived(!showArchived)}
+          onRenameConversation={renameConversation}
+          onPinConversation={pinConversation}
+          onArchiveConversation={archiveConversation}
+          onExportConversation={setExportTarget}
         />
       </div>
 
@@ -100,62 +318,172 @@ const ChatInterface: React.FC = () => {
                   AI 助手
                 </h1>
               </div>
-            </div>
 
-            {/* 用户菜单 */}
-            <div className="relative">
+              {/* 当前角色 */}
               <button
-                onClick={() => setShowUserMenu(!showUserMenu)}
-                className="flex items-center space-x-2 p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                onClick={() => setShowPersonas(true)}
+                className={clsx(
+                  'flex items-center space-x-1 px-2.5 py-1 rounded-full text-xs transition-colors',
+                  activePersona
+                    ? 'bg-amber-100 text-amber-800 hover:bg-amber-200 dark:bg-amber-900/30 dark:text-amber-300'
+                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300'
+                )}
+                title={activePersona ? activePersona.system_prompt : '选择角色开始新对话'}
               >
-                <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center text-white">
-                  <User size={16} />
-                </div>
-                <span className="text-sm text-gray-700 dark:text-gray-300">
-                  {user?.is_anonymous ? '匿名用户' : user?.email || '用户'}
-                </span>
+                <Sparkles size={12} />
+                <span>{activePersona ? activePersona.name : '角色'}</span>
               </button>
+            </div>
 
-              {/* 用户菜单下拉 */}
-              {showUserMenu && (
-                <div className="absolute right-0 top-12 z-10 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg shadow-lg py-1 min-w-[160px]">
-                  <div className="px-3 py-2 border-b border-gray-200 dark:border-gray-600">
-                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
-                      {user?.is_anonymous ? '匿名用户' : user?.email}
-                    </p>
-                    <p className="text-xs text-gray-500 dark:text-gray-400">
-                      {user?.is_anonymous ? '临时会话' : '已登录'}
-                    </p>
-                  </div>
-                  
-                  <button
-                    onClick={() => setShowUserMenu(false)}
-                    className="w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 flex items-center space-x-2"
-                  >
-                    <Settings size={14} />
-                    <span>设置</span>
-                  </button>
-                  
-                  <button
-                    onClick={handleLogout}
-                    className="w-full px-3 py-2 text-left text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 flex items-center space-x-2"
-                  >
-                    <LogOut size={14} />
-                    <span>退出登录</span>
-                  </button>
-                </div>
+            <div className="flex items-center space-x-2">
+              {/* 通知中心 */}
+              <NotificationCenter />
+
+              {/* 分享当前对话 */}
+              {currentConversation && messages.length > 0 && (
+                <button
+                  onClick={() => setShowShare(true)}
+                  className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-600 dark:text-gray-300 transition-colors"
+                  title="分享对话"
+                >
+                  <Share2 size={18} />
+                </button>
               )}
+
+              {/* 用户菜单 */}
+              <div className="relative">
+                <button
+                  onClick={() => setShowUserMenu(!showUserMenu)}
+                  className="flex items-center space-x-2 p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                >
+                  <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center text-white">
+                    <User size={16} />
+                  </div>
+                  <span className="text-sm text-gray-700 dark:text-gray-300">
+                    {user?.is_anonymous ? '匿名用户' : user?.email || '用户'}
+                  </span>
+                </button>
+
+                {/* 用户菜单下拉 */}
+                {showUserMenu && (
+                  <div className="absolute right-0 top-12 z-10 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg shadow-lg py-1 min-w-[160px]">
+                    <div className="px-3 py-2 border-b border-gray-200 dark:border-gray-600">
+                      <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                        {user?.is_anonymous ? '匿名用户' : user?.email}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {user?.is_anonymous ? '临时会话' : '已登录'}
+                      </p>
+                    </div>
+                    
+                    {user?.is_anonymous && (
+                      <button
+                        onClick={() => {
+                          setShowUserMenu(false);
+                          setShowUpgrade(true);
+                        }}
+                        className="w-full px-3 py-2 text-left text-sm text-blue-600 dark:text-blue-400 hover:bg-gray-100 dark:hover:bg-gray-600 flex items-center space-x-2"
+                      >
+                        <ShieldCheck size={14} />
+                        <span>保存我的对话</span>
+                      </button>
+                    )}
+                    
+                    <button
+                      onClick={() => {
+                        setShowUserMenu(false);
+                        navigate(SETTINGS_PATH);
+                      }}
+                      className="w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 flex items-center space-x-2"
+                    >
+                      <Settings size={14} />
+                      <span>账户设置</span>
+                    </button>
+                    
+                    <button
+                      onClick={() => {
+                        setShowUserMenu(false);
+                        setShowSettings(true);
+                      }}
+                      className="w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 flex items-center space-x-2"
+                    >
+                      <SlidersHorizontal size={14} />
+                      <span>对话设置</span>
+                    </button>
+                    
+                    <button
+                      onClick={() => {
+                        setShowUserMenu(false);
+                        setExportTarget(null);
+                      }}
+                      className="w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 flex items-center space-x-2"
+                    >
+                      <Download size={14} />
+                      <span>导出全部对话</span>
+                    </button>
+                    
+                    <button
+                      onClick={() => {
+                        setShowUserMenu(false);
+                        setShowImport(true);
+                      }}
+                      className="w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 flex items-center space-x-2"
+                    >
+                      <Upload size={14} />
+                      <span>导入对话</span>
+                    </button>
+                    
+                    <button
+                      onClick={handleLogout}
+                      className="w-full px-3 py-2 text-left text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 flex items-center space-x-2"
+                    >
+                      <LogOut size={14} />
+                      <span>退出登录</span>
+                    </button>
+                  </div>
+                )}
+              </div>
             </div>
           </div>
         </header>
 
+        {/* 离线提示 */}
+        {!isOnline && (
+          <div className="flex items-center justify-center space-x-2 bg-amber-50 dark:bg-amber-900/20 border-b border-amber-200 dark:border-amber-800 px-4 py-2 text-sm text-amber-800 dark:text-amber-300">
+            <WifiOff size={14} />
+            <span>当前处于离线状态，正在显示本地缓存的对话，新消息将在网络恢复后发送</span>
+          </div>
+        )}
+
+        {/* 匿名用户保存对话提醒 */}
+        {user?.is_anonymous && totalConversations > 0 && !upgradeBannerDismissed && (
+          <div className="flex items-center justify-center space-x-3 bg-blue-50 dark:bg-blue-900/20 border-b border-blue-200 dark:border-blue-800 px-4 py-2 text-sm text-blue-800 dark:text-blue-300">
+            <ShieldCheck size={14} className="flex-shrink-0" />
+            <span>您正在使用匿名会话，已有 {totalConversations} 个对话，注册账户即可永久保存</span>
+            <button
+              onClick={() => setShowUpgrade(true)}
+              className="px-2.5 py-1 rounded-md bg-blue-500 hover:bg-blue-600 text-white text-xs font-medium flex-shrink-0"
+            >
+              保存我的对话
+            </button>
+            <button
+              onClick={handleDismissUpgradeBanner}
+              className="p-1 rounded hover:bg-blue-100 dark:hover:bg-blue-800/40 flex-shrink-0"
+              title="关闭提醒"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        )}
+
         {/* 聊天消息区域 */}
         <div
           ref={chatContainerRef}
+          onScroll={handleChatScroll}
           className="flex-1 overflow-y-auto bg-gray-50 dark:bg-gray-900 p-4"
         >
           <div className="max-w-4xl mx-auto">
-            {messages.length === 0 ? (
+            {messages.length === 0 && !personaMessage ? (
               // 欢迎界面
               <div className="flex flex-col items-center justify-center h-full text-center py-12">
                 <Bot size={64} className="text-blue-500 mb-6" />
@@ -204,11 +532,39 @@ const ChatInterface: React.FC = () => {
             ) : (
               // 消息列表
               <div className="space-y-4">
+                {/* 更早的消息 */}
+                {isLoadingOlderMessages ? (
+                  <div className="flex items-center justify-center space-x-2 py-2 text-xs text-gray-500 dark:text-gray-400">
+                    <Loader2 size={14} className="animate-spin" />
+                    <span>正在加载更早的消息...</span>
+                  </div>
+                ) : hasMoreMessages && (
+                  <div className="flex justify-center">
+                    <button
+                      onClick={handleLoadOlderMessages}
+                      className="px-3 py-1 text-xs rounded-full text-gray-600 dark:text-gray-400 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700"
+                    >
+                      加载更早的消息
+                    </button>
+                  </div>
+                )}
+                {personaMessage && <ChatBubble message={personaMessage} />}
                 {messages.map((message) => (
                   <ChatBubble
                     key={message.id}
                     message={message}
                     isLoading={hasLoadingMessage && message.role === MessageRole.ASSISTANT && !message.content}
+                    branchInfo={getBranchInfo(message.id)}
+                    actionsDisabled={isLoading}
+                    onSwitchBranch={(offset) => switchBranch(message.id, offset)}
+                    onRegenerate={() => regenerateMessage(message.id)}
+                    onEdit={(content) => editMessage(message.id, content)}
+                    onCopyLink={() => handleCopyMessageLink(message.id)}
+                    onRetry={() => retryMessage(message.id)}
+                    onDiscard={() => discardMessage(message.id)}
+                    isHighlighted={message.id === highlightedMessageId}
+                    isReadingAloud={message.id === readingMessageId}
+                    onReadAloud={isReadAloudSupported ? () => toggleReadAloud(message.id) : undefined}
                   />
                 ))}
                 <div ref={messagesEndRef} />
@@ -220,11 +576,59 @@ const ChatInterface: React.FC = () => {
         {/* 输入区域 */}
         <ChatInput
           onSendMessage={handleSendMessage}
+          onStop={stopGeneration}
           disabled={isLoading}
-          placeholder={isLoading ? 'AI 正在回复中...' : '输入消息...'}
+          isStreaming={isStreaming}
+          placeholder={isLoading ? 'AI 正在回复中...' : !isOnline ? '离线状态，消息将在网络恢复后发送' : '输入消息...'}
         />
       </div>
 
+      {/* 对话设置 */}
+      <GenerationSettingsPanel
+        isOpen={showSettings}
+        settings={generationSettings}
+        onChange={updateGenerationSettings}
+        onClose={() => setShowSettings(false)}
+      />
+
+      {/* 角色预设 */}
+      <PersonaManager
+        isOpen={showPersonas}
+        activePersona={activePersona}
+        onStartConversation={createNewConversation}
+        onClose={() => setShowPersonas(false)}
+      />
+
+      {/* 导出对话 */}
+      <ExportDialog
+        isOpen={exportTarget !== undefined}
+        conversation={exportTarget ?? null}
+        onClose={() => setExportTarget(undefined)}
+      />
+
+      {/* 分享对话 */}
+      <ShareDialog
+        isOpen={showShare}
+        conversationId={currentConversation}
+        title={conversations.find(conv => conv.conversation_id === currentConversation)?.title}
+        messages={messages}
+        onClose={() => setShowShare(false)}
+      />
+
+      {/* 导入对话 */}
+      <ImportDialog
+        isOpen={showImport}
+        onImported={refreshConversations}
+        onClose={() => setShowImport(false)}
+      />
+
+      {/* 保存匿名用户的对话 */}
+      <UpgradeAccountDialog
+        isOpen={showUpgrade}
+        onUpgraded={refreshConversations}
+        onClose={() => setShowUpgrade(false)}
+      />
+
       {/* 点击外部关闭用户菜单 */}
       {showUserMenu && (
         <div
@@ -1,6 +1,22 @@
 import React, { useState } from 'react';
-import { MessageCircle, Plus, Trash2, MoreVertical } from 'lucide-react';
-import { ConversationListProps } from '../types';
+import {
+  MessageCircle,
+  Plus,
+  Trash2,
+  MoreVertical,
+  Loader2,
+  Search,
+  X,
+  Pencil,
+  Pin,
+  PinOff,
+  Archive,
+  ArchiveRestore,
+  Download
+} from 'lucide-react';
+import { Conversation, ConversationListProps, MessageSearchResult } from '../types';
+import SearchResults from './SearchResults';
+import { useSearch } from '../hooks/useSearch';
 import clsx from 'clsx';
 
 const ConversationList: React.FC<ConversationListProps> = ({
@@ -9,8 +25,23 @@ const ConversationList: React.FC<ConversationListProps> = ({
   onSelectConversation,
   onNewConversation,
   onDeleteConversation,
+  totalConversations,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+  onOpenSearchResult,
+  showArchived = false,
+  onToggleArchived,
+  onRenameConversation,
+  onPinConversation,
+  onArchiveConversation,
+  onExportConversation,
 }) => {
   const [showDeleteMenu, setShowDeleteMenu] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const { query, setQuery, groups, isSearching, source, clearSearch } = useSearch();
+  const isSearchActive = query.trim().length > 0;
 
   const formatTime = (dateString: string) => {
     const date = new Date(dateString);
@@ -49,37 +80,149 @@ const ConversationList: React.FC<ConversationListProps> = ({
 
   const handleConversationClick = (conversationId: string) => {
     setShowDeleteMenu(null);
+    if (editingId === conversationId) return;
     onSelectConversation(conversationId);
   };
 
+  // 开始重命名
+  const handleStartRename = (e: React.MouseEvent, conversation: Conversation) => {
+    e.stopPropagation();
+    setShowDeleteMenu(null);
+    setEditTitle(conversation.title || conversation.last_message);
+    setEditingId(conversation.conversation_id);
+  };
+
+  // 提交重命名，标题为空或未改变时不保存
+  const handleSubmitRename = (conversation: Conversation) => {
+    const trimmed = editTitle.trim();
+    setEditingId(null);
+    if (trimmed && trimmed !== conversation.title && onRenameConversation) {
+      onRenameConversation(conversation.conversation_id, trimmed);
+    }
+  };
+
+  const handleTogglePin = (e: React.MouseEvent, conversation: Conversation) => {
+    e.stopPropagation();
+    setShowDeleteMenu(null);
+    onPinConversation?.(conversation.conversation_id, !conversation.is_pinned);
+  };
+
+  const handleToggleArchive = (e: React.MouseEvent, conversation: Conversation) => {
+    e.stopPropagation();
+    setShowDeleteMenu(null);
+    onArchiveConversation?.(conversation.conversation_id, !showArchived);
+  };
+
+  // 打开搜索结果所在的对话并定位到消息
+  const handleSelectSearchResult = (result: MessageSearchResult) => {
+    if (onOpenSearchResult) {
+      onOpenSearchResult(result.conversation_id, result.message_id);
+    } else {
+      onSelectConversation(result.conversation_id);
+    }
+  };
+
+  const handleExport = (e: React.MouseEvent, conversation: Conversation) => {
+    e.stopPropagation();
+    setShowDeleteMenu(null);
+    onExportConversation?.(conversation);
+  };
+
+  // 滚动到底部附近时加载更多对话
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    if (isSearchActive) return;
+    const { scrollTop, scrollHeight, clientHeight } = e.currentTarget;
+    if (hasMore && !isLoadingMore && onLoadMore && scrollHeight - scrollTop - clientHeight < 100) {
+      onLoadMore();
+    }
+  };
+
   return (
     <div className="w-80 bg-white dark:bg-gray-800 border-r border-gray-200 dark:border-gray-700 flex flex-col h-full">
       {/* 头部 */}
       <div className="p-4 border-b border-gray-200 dark:border-gray-700">
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
-            对话列表
+            {showArchived ? '已归档对话' : '对话列表'}
           </h2>
-          <button
-            onClick={onNewConversation}
-            className="p-2 rounded-lg bg-blue-500 hover:bg-blue-600 text-white transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
-            title="新建对话"
-          >
-            <Plus size={18} />
-          </button>
+          <div className="flex items-center space-x-2">
+            {onToggleArchived && (
+              <button
+                onClick={onToggleArchived}
+                className={clsx(
+                  'p-2 rounded-lg transition-colors',
+                  showArchived
+                    ? 'bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200'
+                    : 'text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700'
+                )}
+                title={showArchived ? '返回对话列表' : '查看已归档对话'}
+              >
+                <Archive size={18} />
+              </button>
+            )}
+            <button
+              onClick={onNewConversation}
+              className="p-2 rounded-lg bg-blue-500 hover:bg-blue-600 text-white transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+              title="新建对话"
+            >
+              <Plus size={18} />
+            </button>
+          </div>
+        </div>
+
+        {/* 搜索框 */}
+        <div className="relative">
+          <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') clearSearch();
+            }}
+            placeholder="搜索所有对话中的消息"
+            className="w-full pl-8 pr-8 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          {isSearchActive && (
+            <button
+              onClick={clearSearch}
+              className="absolute right-2 top-1/2 -translate-y-1/2 p-0.5 rounded hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-400"
+              title="清除搜索"
+            >
+              {isSearching ? <Loader2 size={14} className="animate-spin" /> : <X size={14} />}
+            </button>
+          )}
         </div>
       </div>
 
       {/* 对话列表 */}
-      <div className="flex-1 overflow-y-auto">
-        {conversations.length === 0 ? (
+      <div className="flex-1 overflow-y-auto" onScroll={handleScroll}>
+        {isSearchActive ? (
+          <SearchResults
+            query={query.trim()}
+            groups={groups}
+            conversations={conversations}
+            isSearching={isSearching}
+            source={source}
+            onSelectResult={handleSelectSearchResult}
+          />
+        ) : conversations.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-full text-gray-500 dark:text-gray-400 p-8">
-            <MessageCircle size={48} className="mb-4 opacity-50" />
-            <p className="text-center text-sm">
-              还没有对话记录
-              <br />
-              点击上方按钮开始新对话
-            </p>
+            {showArchived ? (
+              <>
+                <Archive size={48} className="mb-4 opacity-50" />
+                <p className="text-center text-sm">没有已归档的对话</p>
+              </>
+            ) : (
+              <>
+                <MessageCircle size={48} className="mb-4 opacity-50" />
+                <p className="text-center text-sm">
+                  还没有对话记录
+                  <br />
+                  点击上方按钮开始新对话
+                </p>
+              </>
+            )}
           </div>
         ) : (
           <div className="p-2">
@@ -97,10 +240,38 @@ const ConversationList: React.FC<ConversationListProps> = ({
               >
                 <div className="flex items-start justify-between">
                   <div className="flex-1 min-w-0">
-                    {/* 最后一条消息 */}
-                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-1 line-clamp-2">
-                      {truncateMessage(conversation.last_message)}
-                    </p>
+                    {editingId === conversation.conversation_id ? (
+                      // 重命名输入框
+                      <input
+                        autoFocus
+                        value={editTitle}
+                        onChange={(e) => setEditTitle(e.target.value)}
+                        onClick={(e) => e.stopPropagation()}
+                        onBlur={() => handleSubmitRename(conversation)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleSubmitRename(conversation);
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                        className="w-full mb-1 px-2 py-1 text-sm rounded border border-blue-300 dark:border-blue-700 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    ) : (
+                      // 标题，没有标题时显示最后一条消息
+                      <div className="flex items-center space-x-1 mb-1">
+                        {conversation.is_pinned && (
+                          <Pin size={12} className="flex-shrink-0 text-blue-500" />
+                        )}
+                        <p className="text-sm font-medium text-gray-900 dark:text-gray-100 line-clamp-2">
+                          {conversation.title || truncateMessage(conversation.last_message)}
+                        </p>
+                      </div>
+                    )}
+                    
+                    {/* 有标题时显示最后一条消息 */}
+                    {conversation.title && (
+                      <p className="text-xs text-gray-600 dark:text-gray-400 mb-1 truncate">
+                        {conversation.last_message}
+                      </p>
+                    )}
                     
                     {/* 时间 */}
                     <p className="text-xs text-gray-500 dark:text-gray-400">
@@ -117,9 +288,45 @@ const ConversationList: React.FC<ConversationListProps> = ({
                       <MoreVertical size={14} className="text-gray-500 dark:text-gray-400" />
                     </button>
 
-                    {/* 删除确认菜单 */}
+                    {/* 操作菜单 */}
                     {showDeleteMenu === conversation.conversation_id && (
                       <div className="absolute right-0 top-6 z-10 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg shadow-lg py-1 min-w-[120px]">
+                        {onRenameConversation && (
+                          <button
+                            onClick={(e) => handleStartRename(e, conversation)}
+                            className="w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 flex items-center space-x-2"
+                          >
+                            <Pencil size={14} />
+                            <span>重命名</span>
+                          </button>
+                        )}
+                        {onPinConversation && !showArchived && (
+                          <button
+                            onClick={(e) => handleTogglePin(e, conversation)}
+                            className="w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 flex items-center space-x-2"
+                          >
+                            {conversation.is_pinned ? <PinOff size={14} /> : <Pin size={14} />}
+                            <span>{conversation.is_pinned ? '取消置顶' : '置顶'}</span>
+                          </button>
+                        )}
+                        {onExportConversation && (
+                          <button
+                            onClick={(e) => handleExport(e, conversation)}
+                            className="w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 flex items-center space-x-2"
+                          >
+                            <Download size={14} />
+                            <span>导出</span>
+                          </button>
+                        )}
+                        {onArchiveConversation && (
+                          <button
+                            onClick={(e) => handleToggleArchive(e, conversation)}
+                            className="w-full px-3 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600 flex items-center space-x-2"
+                          >
+                            {showArchived ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+                            <span>{showArchived ? '取消归档' : '归档'}</span>
+                          </button>
+                        )}
                         <button
                           onClick={(e) => handleConfirmDelete(e, conversation.conversation_id)}
                           className="w-full px-3 py-2 text-left text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 flex items-center space-x-2"
@@ -138,6 +345,21 @@ const ConversationList: React.FC<ConversationListProps> = ({
                 )}
               </div>
             ))}
+
+            {/* 加载更多 */}
+            {isLoadingMore ? (
+              <div className="flex items-center justify-center space-x-2 py-3 text-xs text-gray-500 dark:text-gray-400">
+                <Loader2 size={14} className="animate-spin" />
+                <span>加载中...</span>
+              </div>
+            ) : hasMore && onLoadMore && (
+              <button
+                onClick={onLoadMore}
+                className="w-full py-2 text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+              >
+                加载更多
+              </button>
+            )}
           </div>
         )}
       </div>
@@ -145,7 +367,7 @@ const ConversationList: React.FC<ConversationListProps> = ({
       {/* 底部信息 */}
       <div className="p-4 border-t border-gray-200 dark:border-gray-700">
         <p className="text-xs text-gray-500 dark:text-gray-400 text-center">
-          共 {conversations.length} 个对话
+          共 {totalConversations ?? conversations.length} 个{showArchived ? '已归档' : ''}对话
         </p>
       </div>
     </div>
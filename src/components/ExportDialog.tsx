@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { X, Download, FileText, FileJson, FileCode, Printer, Loader2 } from 'lucide-react';
+import { ExportDialogProps, ExportedConversation, ExportFormat } from '../types';
+import ExportDocument from './ExportDocument';
+import { exportService } from '../services/exportService';
+import {
+  EXPORT_FILE_TYPES,
+  toExportJSON,
+  toExportMarkdown,
+  toExportHTML,
+  toFileName,
+  downloadFile,
+  printHTML
+} from '../utils/export';
+import toast from 'react-hot-toast';
+
+const FORMAT_OPTIONS: Array<{ format: ExportFormat; label: string; description: string; icon: React.ElementType }> = [
+  { format: 'markdown', label: 'Markdown', description: '适合笔记和文档工具', icon: FileText },
+  { format: 'json', label: 'JSON', description: '包含所有分支，可重新导入', icon: FileJson },
+  { format: 'html', label: 'HTML', description: '独立网页，保留代码高亮', icon: FileCode },
+  { format: 'pdf', label: 'PDF', description: '打开打印对话框，另存为PDF', icon: Printer },
+];
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, conversation, onClose }) => {
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+
+  if (!isOpen) return null;
+
+  // 生成带代码高亮的独立HTML页面
+  const renderHTML = (title: string, conversations: ExportedConversation[]) => {
+    const body = renderToStaticMarkup(
+      <ExportDocument conversations={conversations} exportedAt={new Date().toISOString()} />
+    );
+    return toExportHTML(title, body);
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      setExportingFormat(format);
+      const conversations = conversation
+        ? [await exportService.getExportedConversation(conversation)]
+        : await exportService.getAllExportedConversations();
+      if (conversations.length === 0) {
+        toast.error('没有可导出的对话');
+        return;
+      }
+
+      const title = conversation
+        ? conversations[0].title
+        : `全部对话_${new Date().toISOString().slice(0, 10)}`;
+
+      if (format === 'pdf') {
+        printHTML(renderHTML(title, conversations));
+      } else {
+        const content = format === 'json'
+          ? toExportJSON(conversations)
+          : format === 'markdown'
+            ? toExportMarkdown(conversations)
+            : renderHTML(title, conversations);
+        const { extension, mimeType } = EXPORT_FILE_TYPES[format];
+        downloadFile(content, toFileName(title, extension), mimeType);
+        toast.success('导出成功');
+      }
+      onClose();
+    } catch (error: any) {
+      console.error('导出对话失败:', error);
+      toast.error(error.message || '导出对话失败');
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-white dark:bg-gray-800 rounded-2xl shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* 头部 */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-2 min-w-0">
+            <Download size={18} className="text-blue-500 flex-shrink-0" />
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 truncate">
+              {conversation ? '导出对话' : '导出全部对话'}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* 格式选择 */}
+        <div className="p-3 space-y-1">
+          {FORMAT_OPTIONS.map(({ format, label, description, icon: Icon }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={exportingFormat !== null}
+              className="w-full flex items-center space-x-3 rounded-lg px-3 py-3 text-left hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+            >
+              {exportingFormat === format ? (
+                <Loader2 size={20} className="animate-spin text-blue-500" />
+              ) : (
+                <Icon size={20} className="text-gray-500 dark:text-gray-400" />
+              )}
+              <div>
+                <p className="text-sm font-medium text-gray-900 dark:text-gray-100">{label}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{description}</p>
+              </div>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
\ No newline at end of file
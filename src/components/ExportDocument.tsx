@@ -0,0 +1,61 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { ExportDocumentProps, MessageRole } from '../types';
+import { formatExportTime, getExportMessages, getRoleLabel } from '../utils/export';
+
+// 导出用的静态页面内容，代码高亮使用内联样式，不依赖应用样式表
+const ExportDocument: React.FC<ExportDocumentProps> = ({ conversations, exportedAt }) => {
+  return (
+    <>
+      {conversations.map(conversation => {
+        const messages = getExportMessages(conversation);
+        return (
+          <section key={conversation.conversation_id} className="conversation">
+            <h1>{conversation.title}</h1>
+            <p className="meta">
+              {messages.length} 条消息 · 导出于 {formatExportTime(exportedAt)}
+            </p>
+
+            {messages.map(message => (
+              <div key={message.id} className={`message ${message.role}`}>
+                <div className="role">
+                  {getRoleLabel(message.role)}
+                  <span>{formatExportTime(message.created_at)}</span>
+                </div>
+                {message.role === MessageRole.USER ? (
+                  <div className="content plain">{message.content}</div>
+                ) : (
+                  <div className="content">
+                    <ReactMarkdown
+                      remarkPlugins={[remarkGfm]}
+                      components={{
+                        code({ node, inline, className, children, ...props }: any) {
+                          const match = /language-(\w+)/.exec(className || '');
+                          if (!inline && match) {
+                            return (
+                              <SyntaxHighlighter style={oneDark as any} language={match[1]}>
+                                {String(children).replace(/\n$/, '')}
+                              </SyntaxHighlighter>
+                            );
+                          }
+                          return <code {...props}>{children}</code>;
+                        },
+                      }}
+                    >
+                      {message.content}
+                    </ReactMarkdown>
+                  </div>
+                )}
+              </div>
+            ))}
+          </section>
+        );
+      })}
+    </>
+  );
+};
+
+export default ExportDocument;
\ No newline at end of file
@@ -0,0 +1,133 @@
+import React from 'react';
+import { X, SlidersHorizontal, RotateCcw } from 'lucide-react';
+import { GenerationSettingsPanelProps } from '../types';
+import {
+  MODEL_OPTIONS,
+  DEFAULT_GENERATION_SETTINGS,
+  TEMPERATURE_RANGE,
+  MAX_TOKENS_RANGE
+} from '../utils/generationSettings';
+
+const GenerationSettingsPanel: React.FC<GenerationSettingsPanelProps> = ({
+  isOpen,
+  settings,
+  onChange,
+  onClose,
+}) => {
+  if (!isOpen) return null;
+
+  // 处理最大token数输入，限制在允许范围内
+  const handleMaxTokensChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseInt(e.target.value, 10);
+    if (isNaN(value)) return;
+    onChange({
+      max_tokens: Math.min(MAX_TOKENS_RANGE.max, Math.max(MAX_TOKENS_RANGE.min, value)),
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-white dark:bg-gray-800 rounded-2xl shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* 头部 */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-2">
+            <SlidersHorizontal size={18} className="text-blue-500" />
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+              对话设置
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="px-5 py-4 space-y-5">
+          {/* 模型选择 */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              模型
+            </label>
+            <select
+              value={settings.model}
+              onChange={(e) => onChange({ model: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {MODEL_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* 温度 */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                温度
+              </label>
+              <span className="text-sm text-gray-500 dark:text-gray-400">
+                {settings.temperature.toFixed(1)}
+              </span>
+            </div>
+            <input
+              type="range"
+              min={TEMPERATURE_RANGE.min}
+              max={TEMPERATURE_RANGE.max}
+              step={TEMPERATURE_RANGE.step}
+              value={settings.temperature}
+              onChange={(e) => onChange({ temperature: parseFloat(e.target.value) })}
+              className="w-full accent-blue-500"
+            />
+            <div className="flex justify-between text-xs text-gray-400 mt-1">
+              <span>精确</span>
+              <span>创意</span>
+            </div>
+          </div>
+
+          {/* 最大token数 */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              最大回复长度 (tokens)
+            </label>
+            <input
+              type="number"
+              min={MAX_TOKENS_RANGE.min}
+              max={MAX_TOKENS_RANGE.max}
+              step={MAX_TOKENS_RANGE.step}
+              value={settings.max_tokens}
+              onChange={handleMaxTokensChange}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            设置仅作用于当前对话，新对话将使用未开始对话时的设置。
+          </p>
+        </div>
+
+        {/* 底部 */}
+        <div className="flex items-center justify-between px-5 py-3 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={() => onChange(DEFAULT_GENERATION_SETTINGS)}
+            className="flex items-center space-x-1 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100"
+          >
+            <RotateCcw size={14} />
+            <span>恢复默认</span>
+          </button>
+          <button onClick={onClose} className="btn-primary text-sm">
+            完成
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GenerationSettingsPanel;
\ No newline at end of file
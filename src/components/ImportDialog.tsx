@@ -0,0 +1,216 @@
+import React, { useRef, useState } from 'react';
+import { X, Upload, FileUp, Loader2, MessageCircle } from 'lucide-react';
+import { ImportDialogProps, ImportPreview } from '../types';
+import { apiService } from '../services/api';
+import { parseImportFile, IMPORT_SOURCE_LABELS } from '../utils/importers';
+import toast from 'react-hot-toast';
+
+const ImportDialog: React.FC<ImportDialogProps> = ({ isOpen, onImported, onClose }) => {
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  if (!isOpen) return null;
+
+  const isImporting = progress !== null;
+
+  const handleClose = () => {
+    if (isImporting) return;
+    setPreview(null);
+    setSelected(new Set());
+    setError(null);
+    onClose();
+  };
+
+  // 读取并解析文件，默认选中所有对话
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const parsed = parseImportFile(await file.text());
+      setPreview(parsed);
+      setSelected(new Set(parsed.conversations.map((_, index) => index)));
+      setError(null);
+    } catch (err: any) {
+      console.error('解析导入文件失败:', err);
+      setPreview(null);
+      setError(err.message || '解析导入文件失败');
+    }
+  };
+
+  const toggleSelected = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    if (!preview) return;
+    setSelected(selected.size === preview.conversations.length
+      ? new Set()
+      : new Set(preview.conversations.map((_, index) => index))
+    );
+  };
+
+  // 逐个创建对话，单个失败不影响其余对话
+  const handleImport = async () => {
+    if (!preview || selected.size === 0) return;
+
+    const conversations = preview.conversations.filter((_, index) => selected.has(index));
+    let failed = 0;
+    setProgress({ done: 0, total: conversations.length });
+
+    for (const conversation of conversations) {
+      try {
+        await apiService.importConversation(conversation);
+      } catch (err) {
+        console.error('导入对话失败:', err);
+        failed++;
+      }
+      setProgress(prev => prev && { ...prev, done: prev.done + 1 });
+    }
+
+    setProgress(null);
+    const succeeded = conversations.length - failed;
+    if (succeeded > 0) {
+      onImported();
+    }
+    if (failed > 0) {
+      toast.error(`${failed} 个对话导入失败${succeeded > 0 ? `，已导入 ${succeeded} 个` : ''}`);
+    } else {
+      toast.success(`已导入 ${succeeded} 个对话`);
+      setPreview(null);
+      setSelected(new Set());
+      onClose();
+    }
+  };
+
+  const formatDate = (dateString?: string) => {
+    if (!dateString) return '';
+    return new Date(dateString).toLocaleDateString('zh-CN');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={handleClose}>
+      <div
+        className="w-full max-w-lg bg-white dark:bg-gray-800 rounded-2xl shadow-xl flex flex-col max-h-[80vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* 头部 */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-2">
+            <Upload size={18} className="text-blue-500" />
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+              导入对话
+            </h2>
+          </div>
+          <button
+            onClick={handleClose}
+            disabled={isImporting}
+            className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500 disabled:opacity-50"
+          >
+            <X size={18} />
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+        </div>
+
+        {!preview ? (
+          /* 选择文件 */
+          <div className="p-5">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="w-full flex flex-col items-center justify-center rounded-xl border-2 border-dashed border-gray-300 dark:border-gray-600 py-10 text-gray-500 dark:text-gray-400 hover:border-blue-400 hover:text-blue-500 transition-colors"
+            >
+              <FileUp size={36} className="mb-3" />
+              <span className="text-sm font-medium">选择要导入的JSON文件</span>
+              <span className="text-xs mt-1">支持本应用、ChatGPT和Claude导出的对话</span>
+            </button>
+            {error && (
+              <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>
+            )}
+          </div>
+        ) : (
+          <>
+            {/* 预览 */}
+            <div className="flex items-center justify-between px-5 py-3 text-xs text-gray-500 dark:text-gray-400">
+              <span>
+                来源：{IMPORT_SOURCE_LABELS[preview.source]} · 共 {preview.conversations.length} 个对话
+                {preview.skipped > 0 && `（已跳过 ${preview.skipped} 个空对话）`}
+              </span>
+              <button onClick={toggleAll} disabled={isImporting} className="text-blue-500 hover:text-blue-600">
+                {selected.size === preview.conversations.length ? '取消全选' : '全选'}
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto px-3">
+              {preview.conversations.map((conversation, index) => (
+                <label
+                  key={index}
+                  className="flex items-start space-x-3 rounded-lg p-3 mb-1 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(index)}
+                    onChange={() => toggleSelected(index)}
+                    disabled={isImporting}
+                    className="mt-1"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                      {conversation.title}
+                    </p>
+                    <p className="flex items-center space-x-1 text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                      <MessageCircle size={12} />
+                      <span>{conversation.messages.length} 条消息</span>
+                      {conversation.created_at && <span>· {formatDate(conversation.created_at)}</span>}
+                    </p>
+                  </div>
+                </label>
+              ))}
+            </div>
+
+            {/* 底部操作 */}
+            <div className="flex items-center justify-between px-5 py-4 border-t border-gray-200 dark:border-gray-700">
+              <button
+                onClick={() => setPreview(null)}
+                disabled={isImporting}
+                className="btn-secondary text-sm"
+              >
+                重新选择
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={isImporting || selected.size === 0}
+                className="btn-primary text-sm flex items-center space-x-2"
+              >
+                {isImporting && <Loader2 size={14} className="animate-spin" />}
+                <span>
+                  {progress
+                    ? `正在导入 ${progress.done}/${progress.total}`
+                    : `导入 ${selected.size} 个对话`}
+                </span>
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImportDialog;
\ No newline at end of file
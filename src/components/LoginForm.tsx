@@ -1,16 +1,31 @@
 import React, { useState } from 'react';
-import { Bot, Mail, Lock, User, Loader2 } from 'lucide-react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Bot, Mail, Lock, User, Loader2, UserPlus, Wand2, ArrowLeft, MailCheck, Github, Chrome } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
+import { supabaseService } from '../services/supabaseService';
+import { OAuthProvider } from '../types';
+import { getSafeRedirect } from '../utils/routes';
 import clsx from 'clsx';
 import toast from 'react-hot-toast';
 
 const LoginForm: React.FC = () => {
   const { login, isLoading } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const [loginMode, setLoginMode] = useState<'anonymous' | 'email'>('anonymous');
+  const [emailView, setEmailView] = useState<'login' | 'register' | 'magic' | 'forgot'>('login');
   const [formData, setFormData] = useState({
     email: '',
     password: '',
+    confirmPassword: '',
   });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // 已发送邮件的提示
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  const isBusy = isLoading || isSubmitting;
+  const isSupabaseEnabled = supabaseService.isConfigured();
+  const redirect = searchParams.get('redirect') || undefined;
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -20,19 +35,28 @@ const LoginForm: React.FC = () => {
     }));
   };
 
+  // 登录成功后返回登录前访问的页面
+  const redirectAfterLogin = () => {
+    navigate(getSafeRedirect(redirect), { replace: true });
+  };
+
+  const switchEmailView = (view: typeof emailView) => {
+    setEmailView(view);
+    setSentMessage(null);
+  };
+
   const handleAnonymousLogin = async () => {
     try {
       await login({
         anonymous: true,
       });
+      redirectAfterLogin();
     } catch (error) {
       // 错误已在useAuth中处理
     }
   };
 
-  const handleEmailLogin = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
+  const handleEmailLogin = async () => {
     if (!formData.email || !formData.password) {
       toast.error('请填写邮箱和密码');
       return;
@@ -44,11 +68,84 @@ const LoginForm: React.FC = () => {
         password: formData.password,
         anonymous: false,
       });
+      redirectAfterLogin();
     } catch (error) {
       // 错误已在useAuth中处理
     }
   };
 
+  // 注册账户，未开启邮箱验证时直接登录
+  const handleRegister = async () => {
+    if (formData.password.length < 6) {
+      toast.error('密码至少需要6位');
+      return;
+    }
+    if (formData.password !== formData.confirmPassword) {
+      toast.error('两次输入的密码不一致');
+      return;
+    }
+
+    const session = await supabaseService.signUp(formData.email, formData.password, redirect);
+    if (session) {
+      await login({ supabase_token: session.access_token, anonymous: false });
+      redirectAfterLogin();
+    } else {
+      setSentMessage(`验证邮件已发送至 ${formData.email}，请点击邮件中的链接完成注册`);
+    }
+  };
+
+  const handleEmailSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (emailView === 'login') {
+      await handleEmailLogin();
+      return;
+    }
+
+    if (!formData.email) {
+      toast.error('请填写邮箱地址');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      if (emailView === 'register') {
+        await handleRegister();
+      } else if (emailView === 'magic') {
+        await supabaseService.sendMagicLink(formData.email, redirect);
+        setSentMessage(`登录链接已发送至 ${formData.email}，请点击邮件中的链接登录`);
+      } else {
+        await supabaseService.sendPasswordReset(formData.email);
+        setSentMessage(`重置密码邮件已发送至 ${formData.email}，请点击邮件中的链接设置新密码`);
+      }
+    } catch (error: any) {
+      console.error('邮箱操作失败:', error);
+      toast.error(error.message || '操作失败，请重试');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // 第三方登录，会跳转到对应平台
+  const handleOAuthLogin = async (provider: OAuthProvider) => {
+    try {
+      setIsSubmitting(true);
+      await supabaseService.signInWithOAuth(provider, redirect);
+    } catch (error: any) {
+      console.error('第三方登录失败:', error);
+      toast.error(error.message || '第三方登录失败');
+      setIsSubmitting(false);
+    }
+  };
+
+  const submitLabels = {
+    login: { idle: '邮箱登录', busy: '登录中...', icon: Mail },
+    register: { idle: '注册', busy: '注册中...', icon: UserPlus },
+    magic: { idle: '发送登录链接', busy: '发送中...', icon: Wand2 },
+    forgot: { idle: '发送重置邮件', busy: '发送中...', icon: Mail },
+  };
+  const SubmitIcon = submitLabels[emailView].icon;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 flex items-center justify-center p-4">
       <div className="max-w-md w-full">
@@ -104,7 +201,7 @@ const LoginForm: React.FC = () => {
                 <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
                   无需注册，立即开始使用 AI 助手。
                   <br />
-                  注意：匿名会话数据不会永久保存。
+                  注意：匿名会话数据不会永久保存，可随时注册账户保存对话。
                 </p>
               </div>
 
@@ -123,56 +220,168 @@ const LoginForm: React.FC = () => {
             </div>
           ) : (
             /* 邮箱登录 */
-            <form onSubmit={handleEmailLogin} className="space-y-6">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  邮箱地址
-                </label>
-                <div className="relative">
-                  <Mail size={20} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
-                  <input
-                    type="email"
-                    name="email"
-                    value={formData.email}
-                    onChange={handleInputChange}
-                    placeholder="请输入邮箱地址"
-                    className="w-full pl-10 pr-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400"
-                    required
-                  />
-                </div>
-              </div>
+            <div className="space-y-6">
+              {emailView !== 'login' && (
+                <button
+                  type="button"
+                  onClick={() => switchEmailView('login')}
+                  className="flex items-center space-x-1 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100"
+                >
+                  <ArrowLeft size={16} />
+                  <span>返回密码登录</span>
+                </button>
+              )}
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  密码
-                </label>
-                <div className="relative">
-                  <Lock size={20} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
-                  <input
-                    type="password"
-                    name="password"
-                    value={formData.password}
-                    onChange={handleInputChange}
-                    placeholder="请输入密码"
-                    className="w-full pl-10 pr-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400"
-                    required
-                  />
+              {sentMessage ? (
+                /* 邮件已发送 */
+                <div className="text-center py-4">
+                  <MailCheck size={48} className="mx-auto text-blue-500 mb-4" />
+                  <p className="text-sm text-gray-600 dark:text-gray-400">{sentMessage}</p>
                 </div>
-              </div>
+              ) : (
+                <form onSubmit={handleEmailSubmit} className="space-y-6">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      邮箱地址
+                    </label>
+                    <div className="relative">
+                      <Mail size={20} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                      <input
+                        type="email"
+                        name="email"
+                        value={formData.email}
+                        onChange={handleInputChange}
+                        placeholder="请输入邮箱地址"
+                        className="w-full pl-10 pr-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400"
+                        required
+                      />
+                    </div>
+                  </div>
 
-              <button
-                type="submit"
-                disabled={isLoading}
-                className="w-full bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200 flex items-center justify-center space-x-2"
-              >
-                {isLoading ? (
-                  <Loader2 size={20} className="animate-spin" />
-                ) : (
-                  <Mail size={20} />
-                )}
-                <span>{isLoading ? '登录中...' : '邮箱登录'}</span>
-              </button>
-            </form>
+                  {(emailView === 'login' || emailView === 'register') && (
+                    <div>
+                      <div className="flex items-center justify-between mb-2">
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                          密码
+                        </label>
+                        {emailView === 'login' && isSupabaseEnabled && (
+                          <button
+                            type="button"
+                            onClick={() => switchEmailView('forgot')}
+                            className="text-xs text-blue-500 hover:text-blue-600"
+                          >
+                            忘记密码？
+                          </button>
+                        )}
+                      </div>
+                      <div className="relative">
+                        <Lock size={20} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                        <input
+                          type="password"
+                          name="password"
+                          value={formData.password}
+                          onChange={handleInputChange}
+                          placeholder="请输入密码"
+                          className="w-full pl-10 pr-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400"
+                          required
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {emailView === 'register' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        确认密码
+                      </label>
+                      <div className="relative">
+                        <Lock size={20} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                        <input
+                          type="password"
+                          name="confirmPassword"
+                          value={formData.confirmPassword}
+                          onChange={handleInputChange}
+                          placeholder="请再次输入密码"
+                          className="w-full pl-10 pr-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400"
+                          required
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {emailView === 'magic' && (
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      我们会向您的邮箱发送登录链接，点击即可登录，无需密码。
+                    </p>
+                  )}
+
+                  {emailView === 'forgot' && (
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      输入注册时使用的邮箱，我们会发送重置密码的链接。
+                    </p>
+                  )}
+
+                  <button
+                    type="submit"
+                    disabled={isBusy}
+                    className="w-full bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200 flex items-center justify-center space-x-2"
+                  >
+                    {isBusy ? (
+                      <Loader2 size={20} className="animate-spin" />
+                    ) : (
+                      <SubmitIcon size={20} />
+                    )}
+                    <span>{isBusy ? submitLabels[emailView].busy : submitLabels[emailView].idle}</span>
+                  </button>
+                </form>
+              )}
+
+              {isSupabaseEnabled && emailView === 'login' && (
+                <>
+                  {/* 其他登录方式 */}
+                  <div className="flex items-center justify-between text-sm">
+                    <button
+                      type="button"
+                      onClick={() => switchEmailView('magic')}
+                      className="text-blue-500 hover:text-blue-600"
+                    >
+                      使用邮件链接登录
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => switchEmailView('register')}
+                      className="text-blue-500 hover:text-blue-600"
+                    >
+                      注册新账户
+                    </button>
+                  </div>
+
+                  <div className="flex items-center space-x-3 text-xs text-gray-500 dark:text-gray-400">
+                    <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+                    <span>或使用以下方式登录</span>
+                    <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    {([
+                      { provider: 'github', label: 'GitHub', icon: Github },
+                      { provider: 'google', label: 'Google', icon: Chrome },
+                    ] as const).map(({ provider, label, icon: Icon }) => (
+                      <button
+                        key={provider}
+                        type="button"
+                        onClick={() => handleOAuthLogin(provider)}
+                        disabled={isBusy}
+                        className="flex items-center justify-center space-x-2 py-2.5 px-4 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+                      >
+                        <Icon size={18} />
+                        <span>{label}</span>
+                      </button>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
           )}
 
           {/* 底部说明 */}
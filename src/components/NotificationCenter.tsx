@@ -1,6 +1,9 @@
 import React, { useState } from 'react';
 import { useNotifications } from '../hooks/useNotifications';
+import { useUnreadBadge } from '../hooks/useUnreadBadge';
+import { useDesktopNotifications } from '../hooks/useDesktopNotifications';
 import { NotificationEvent, NotificationType } from '../services/notificationService';
+import { DESKTOP_NOTIFICATION_TYPES } from '../utils/notificationPreferences';
 
 interface NotificationCenterProps {
   className?: string;
@@ -11,15 +14,22 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ className = ''
     notifications,
     unreadCount,
     isConnected,
+    isRead,
     markAsRead,
     markAllAsRead,
+    dismiss,
     clearNotifications,
     serviceStatus
   } = useNotifications();
+  const { preferences, permission, isPushSupported, setTypeEnabled } = useDesktopNotifications();
   
   const [isOpen, setIsOpen] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
   const [filter, setFilter] = useState<NotificationType | 'all'>('all');
 
+  // 在页面标题和图标上显示未读数量
+  useUnreadBadge(unreadCount);
+
   // 过滤通知
   const filteredNotifications = notifications.filter(notification => 
     filter === 'all' || notification.event_type === filter
@@ -62,7 +72,7 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ className = ''
       {/* 通知按钮 */}
       <button
         onClick={() => setIsOpen(!isOpen)}
-        className="relative p-2 text-gray-600 hover:text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 rounded-lg"
+        className="relative p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 rounded-lg transition-colors"
         title="通知中心"
       >
         {/* 铃铛图标 */}
@@ -85,12 +95,18 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ className = ''
 
       {/* 通知面板 */}
       {isOpen && (
-        <div className="absolute right-0 mt-2 w-96 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+        <div className="absolute right-0 mt-2 w-96 max-w-[calc(100vw-2rem)] bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 z-50">
           {/* 头部 */}
-          <div className="p-4 border-b border-gray-200">
+          <div className="p-4 border-b border-gray-200 dark:border-gray-700">
             <div className="flex items-center justify-between">
-              <h3 className="text-lg font-semibold text-gray-900">通知中心</h3>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">通知中心</h3>
               <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => setShowSettings(!showSettings)}
+                  className={`text-sm ${showSettings ? 'text-blue-600' : 'text-gray-600 dark:text-gray-300'} hover:text-gray-800 dark:hover:text-gray-100`}
+                >
+                  设置
+                </button>
                 {unreadCount > 0 && (
                   <button
                     onClick={markAllAsRead}
@@ -101,19 +117,49 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ className = ''
                 )}
                 <button
                   onClick={clearNotifications}
-                  className="text-sm text-gray-600 hover:text-gray-800"
+                  className="text-sm text-gray-600 dark:text-gray-300 hover:text-gray-800 dark:hover:text-gray-100"
                 >
                   清空
                 </button>
               </div>
             </div>
+
+            {/* 桌面通知设置 */}
+            {showSettings && (
+              <div className="mt-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50 space-y-2">
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  页面在后台时，为以下类型显示桌面通知
+                </p>
+                {DESKTOP_NOTIFICATION_TYPES.map(type => (
+                  <label key={type} className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-200">
+                    <span>{getTypeDisplayName(type)}</span>
+                    <input
+                      type="checkbox"
+                      checked={!!preferences[type]}
+                      disabled={permission === 'unsupported'}
+                      onChange={(e) => setTypeEnabled(type, e.target.checked)}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                  </label>
+                ))}
+                {permission === 'denied' && (
+                  <p className="text-xs text-red-500">通知权限已被浏览器阻止，请在浏览器设置中允许</p>
+                )}
+                {permission === 'unsupported' && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">当前浏览器不支持桌面通知</p>
+                )}
+                {permission !== 'unsupported' && !isPushSupported && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">当前环境不支持推送，仅在页面打开时提醒</p>
+                )}
+              </div>
+            )}
             
             {/* 过滤器 */}
-            <div className="mt-3 flex space-x-2">
+            <div className="mt-3 flex flex-wrap gap-2">
               <button
                 onClick={() => setFilter('all')}
                 className={`px-3 py-1 text-sm rounded-full ${
-                  filter === 'all' ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-600'
+                  filter === 'all' ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
                 }`}
               >
                 全部
@@ -123,7 +169,7 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ className = ''
                   key={type}
                   onClick={() => setFilter(type)}
                   className={`px-3 py-1 text-sm rounded-full ${
-                    filter === type ? getTypeColor(type) : 'bg-gray-100 text-gray-600'
+                    filter === type ? getTypeColor(type) : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
                   }`}
                 >
                   {getTypeDisplayName(type)}
@@ -135,7 +181,7 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ className = ''
           {/* 通知列表 */}
           <div className="max-h-96 overflow-y-auto">
             {filteredNotifications.length === 0 ? (
-              <div className="p-8 text-center text-gray-500">
+              <div className="p-8 text-center text-gray-500 dark:text-gray-400">
                 <svg className="w-12 h-12 mx-auto mb-4 text-gray-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2.586a1 1 0 00-.707.293l-2.414 2.414a1 1 0 01-.707.293h-3.172a1 1 0 01-.707-.293l-2.414-2.414A1 1 0 006.586 13H4" />
                 </svg>
@@ -146,8 +192,9 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ className = ''
                 <NotificationItem
                   key={notification.event_id}
                   notification={notification}
-                  isRead={false} // 这里可以根据实际需求判断是否已读
+                  isRead={isRead(notification.event_id)}
                   onMarkAsRead={() => markAsRead(notification.event_id)}
+                  onDismiss={() => dismiss(notification.event_id)}
                   formatTime={formatTime}
                   getTypeDisplayName={getTypeDisplayName}
                   getTypeColor={getTypeColor}
@@ -157,12 +204,14 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ className = ''
           </div>
 
           {/* 状态信息 */}
-          <div className="p-3 border-t border-gray-200 bg-gray-50 text-xs text-gray-500">
+          <div className="p-3 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/40 text-xs text-gray-500 dark:text-gray-400 rounded-b-lg">
             <div className="flex justify-between items-center">
               <span>
                 状态: {isConnected ? '已连接' : '未连接'} | 
-                {serviceStatus.isPolling ? '轮询中' : '已停止'}
-                {serviceStatus.isSSEConnected && ' | SSE已连接'}
+                {serviceStatus.transport === 'websocket' ? 'WebSocket已连接'
+                  : serviceStatus.transport === 'sse' ? 'SSE已连接'
+                  : serviceStatus.isPolling ? '轮询中'
+                  : serviceStatus.isRunning ? '重连中' : '已停止'}
               </span>
               <span>
                 间隔: {serviceStatus.pollingInterval}ms
@@ -180,6 +229,7 @@ interface NotificationItemProps {
   notification: NotificationEvent;
   isRead: boolean;
   onMarkAsRead: () => void;
+  onDismiss: () => void;
   formatTime: (timestamp: string) => string;
   getTypeDisplayName: (type: NotificationType) => string;
   getTypeColor: (type: NotificationType) => string;
@@ -189,14 +239,15 @@ const NotificationItem: React.FC<NotificationItemProps> = ({
   notification,
   isRead,
   onMarkAsRead,
+  onDismiss,
   formatTime,
   getTypeDisplayName,
   getTypeColor
 }) => {
   return (
     <div
-      className={`p-4 border-b border-gray-100 hover:bg-gray-50 cursor-pointer ${
-        !isRead ? 'bg-blue-50' : ''
+      className={`p-4 border-b border-gray-100 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50 cursor-pointer ${
+        !isRead ? 'bg-blue-50 dark:bg-blue-900/20' : ''
       }`}
       onClick={onMarkAsRead}
     >
@@ -214,17 +265,32 @@ const NotificationItem: React.FC<NotificationItemProps> = ({
             }`}>
               {getTypeDisplayName(notification.event_type)}
             </span>
-            <span className="text-xs text-gray-500">
-              {formatTime(notification.timestamp)}
-            </span>
+            <div className="flex items-center space-x-2">
+              <span className="text-xs text-gray-500">
+                {formatTime(notification.timestamp)}
+              </span>
+              {/* 删除按钮 */}
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDismiss();
+                }}
+                className="text-gray-400 hover:text-gray-600"
+                title="删除通知"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
           </div>
           
           {/* 通知内容 */}
-          <p className="text-sm text-gray-900 mb-1">
+          <p className="text-sm text-gray-900 dark:text-gray-100 mb-1">
             {notification.event_type}
           </p>
           {(notification.data?.message || notification.event_type) && (
-            <p className="text-sm text-gray-600 line-clamp-2">
+            <p className="text-sm text-gray-600 dark:text-gray-300 line-clamp-2">
               {notification.data?.message || notification.event_type}
             </p>
           )}
@@ -233,7 +299,7 @@ const NotificationItem: React.FC<NotificationItemProps> = ({
           {notification.data && Object.keys(notification.data).length > 0 && (
             <details className="mt-2">
               <summary className="cursor-pointer text-xs text-gray-500">数据详情</summary>
-              <pre className="mt-1 bg-gray-100 p-2 rounded text-xs overflow-x-auto">
+              <pre className="mt-1 bg-gray-100 dark:bg-gray-900 dark:text-gray-300 p-2 rounded text-xs overflow-x-auto">
                 {JSON.stringify(notification.data, null, 2)}
               </pre>
             </details>
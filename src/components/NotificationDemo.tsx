@@ -61,7 +61,8 @@ const NotificationDemo: React.FC = () => {
               <span>轮询状态: {serviceStatus.isPolling ? '运行中' : '已停止'}</span>
             </div>
             <div>
-              <span>SSE状态: {serviceStatus.isSSEConnected ? '已连接' : '未连接'}</span>
+              <span>传输方式: {serviceStatus.transport || '未连接'}（配置: {serviceStatus.transportPreference}）
+                {serviceStatus.reconnectAttempts > 0 && `（重连第${serviceStatus.reconnectAttempts}次）`}</span>
             </div>
             <div>
               <span>轮询间隔: {serviceStatus.pollingInterval}ms</span>
@@ -76,14 +77,14 @@ const NotificationDemo: React.FC = () => {
         <div className="mb-6 flex flex-wrap gap-3">
           <button
             onClick={startService}
-            disabled={serviceStatus.isPolling}
+            disabled={serviceStatus.isRunning}
             className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             启动服务
           </button>
           <button
             onClick={stopService}
-            disabled={!serviceStatus.isPolling}
+            disabled={!serviceStatus.isRunning}
             className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             停止服务
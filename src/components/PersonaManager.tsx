@@ -0,0 +1,248 @@
+import React, { useRef, useState } from 'react';
+import { X, Sparkles, Plus, Pencil, Trash2, Upload, MessageSquarePlus } from 'lucide-react';
+import { Persona, PersonaManagerProps } from '../types';
+import { usePersonas } from '../hooks/usePersonas';
+import { toConversationPersona } from '../utils/personas';
+import clsx from 'clsx';
+import toast from 'react-hot-toast';
+
+const PersonaManager: React.FC<PersonaManagerProps> = ({
+  isOpen,
+  activePersona,
+  onStartConversation,
+  onClose,
+}) => {
+  const { personas, createPersona, updatePersona, deletePersona, importPersonas } = usePersonas();
+  // null: 列表视图, 'new': 新建, 其他: 正在编辑的角色ID
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [formData, setFormData] = useState({ name: '', system_prompt: '' });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  if (!isOpen) return null;
+
+  const handleStartCreate = () => {
+    setFormData({ name: '', system_prompt: '' });
+    setEditingId('new');
+  };
+
+  const handleStartEdit = (persona: Persona) => {
+    setFormData({ name: persona.name, system_prompt: persona.system_prompt });
+    setEditingId(persona.id);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim() || !formData.system_prompt.trim()) {
+      toast.error('请填写角色名称和系统提示词');
+      return;
+    }
+
+    if (editingId === 'new') {
+      createPersona(formData.name, formData.system_prompt);
+      toast.success('角色已创建');
+    } else if (editingId) {
+      updatePersona(editingId, {
+        name: formData.name.trim(),
+        system_prompt: formData.system_prompt.trim(),
+      });
+      toast.success('角色已更新');
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (id: string) => {
+    deletePersona(id);
+    setConfirmDeleteId(null);
+    toast.success('角色已删除');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const count = await importPersonas(file);
+      toast.success(`已导入 ${count} 个角色`);
+    } catch (error: any) {
+      console.error('导入角色失败:', error);
+      toast.error(error.message || '导入角色失败');
+    }
+  };
+
+  const handleStartConversation = (persona: Persona) => {
+    onStartConversation(toConversationPersona(persona));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg bg-white dark:bg-gray-800 rounded-2xl shadow-xl flex flex-col max-h-[80vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* 头部 */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-2">
+            <Sparkles size={18} className="text-blue-500" />
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+              角色预设
+            </h2>
+          </div>
+          <div className="flex items-center space-x-1">
+            {editingId === null && (
+              <>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500"
+                  title="从JSON导入"
+                >
+                  <Upload size={18} />
+                </button>
+                <button
+                  onClick={handleStartCreate}
+                  className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500"
+                  title="新建角色"
+                >
+                  <Plus size={18} />
+                </button>
+              </>
+            )}
+            <button
+              onClick={onClose}
+              className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500"
+            >
+              <X size={18} />
+            </button>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+
+        {editingId !== null ? (
+          /* 新建/编辑表单 */
+          <form onSubmit={handleSave} className="px-5 py-4 space-y-4 overflow-y-auto">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                角色名称
+              </label>
+              <input
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="例如：代码审查员"
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                系统提示词
+              </label>
+              <textarea
+                value={formData.system_prompt}
+                onChange={(e) => setFormData(prev => ({ ...prev, system_prompt: e.target.value }))}
+                rows={8}
+                placeholder="描述AI在对话中应扮演的角色和遵循的规则"
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-y"
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <button type="button" onClick={() => setEditingId(null)} className="btn-secondary text-sm">
+                取消
+              </button>
+              <button type="submit" className="btn-primary text-sm">
+                保存
+              </button>
+            </div>
+          </form>
+        ) : (
+          /* 角色列表 */
+          <div className="flex-1 overflow-y-auto p-3">
+            {personas.length === 0 ? (
+              <div className="flex flex-col items-center justify-center text-gray-500 dark:text-gray-400 py-12">
+                <Sparkles size={40} className="mb-3 opacity-50" />
+                <p className="text-sm text-center">
+                  还没有角色预设
+                  <br />
+                  新建或导入角色，用于开始带有系统提示词的对话
+                </p>
+              </div>
+            ) : (
+              personas.map(persona => (
+                <div
+                  key={persona.id}
+                  className={clsx(
+                    'group rounded-lg p-3 mb-2 border transition-colors',
+                    activePersona?.persona_id === persona.id
+                      ? 'border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20'
+                      : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
+                  )}
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                        {persona.name}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 line-clamp-2">
+                        {persona.system_prompt}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-1 ml-2">
+                      <button
+                        onClick={() => handleStartConversation(persona)}
+                        className="p-1.5 rounded hover:bg-blue-100 dark:hover:bg-blue-900/40 text-blue-500"
+                        title="使用此角色开始新对话"
+                      >
+                        <MessageSquarePlus size={14} />
+                      </button>
+                      <button
+                        onClick={() => handleStartEdit(persona)}
+                        className="p-1.5 rounded hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-500"
+                        title="编辑"
+                      >
+                        <Pencil size={14} />
+                      </button>
+                      <button
+                        onClick={() => setConfirmDeleteId(confirmDeleteId === persona.id ? null : persona.id)}
+                        className="p-1.5 rounded hover:bg-red-50 dark:hover:bg-red-900/20 text-red-500"
+                        title="删除"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </div>
+
+                  {/* 删除确认 */}
+                  {confirmDeleteId === persona.id && (
+                    <div className="flex items-center justify-end space-x-2 mt-2 text-xs">
+                      <span className="text-gray-500 dark:text-gray-400">确定删除该角色？</span>
+                      <button
+                        onClick={() => setConfirmDeleteId(null)}
+                        className="px-2 py-1 rounded text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                      >
+                        取消
+                      </button>
+                      <button
+                        onClick={() => handleDelete(persona.id)}
+                        className="px-2 py-1 rounded bg-red-500 hover:bg-red-600 text-white"
+                      >
+                        删除
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PersonaManager;
\ No newline at end of file
@@ -0,0 +1,109 @@
+import React from 'react';
+import { Search, Loader2, MessageCircle, User, Bot, HardDrive } from 'lucide-react';
+import { MessageRole, SearchResultsProps } from '../types';
+import { buildSnippet, splitHighlights } from '../utils/search';
+
+const SearchResults: React.FC<SearchResultsProps> = ({
+  query,
+  groups,
+  conversations,
+  isSearching,
+  source,
+  onSelectResult,
+}) => {
+  // 对话标题：优先使用对话列表中的标题，其次使用搜索结果中的标题和最后一条消息
+  const getConversationTitle = (conversationId: string, title?: string) => {
+    const conversation = conversations.find(conv => conv.conversation_id === conversationId);
+    return conversation?.title || title || conversation?.last_message || '未命名对话';
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('zh-CN', {
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  // 高亮显示命中的关键词
+  const renderHighlighted = (text: string) => (
+    splitHighlights(text, query).map((segment, index) =>
+      segment.match ? (
+        <mark key={index} className="bg-yellow-200 dark:bg-yellow-600/60 text-inherit rounded-sm px-0.5">
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    )
+  );
+
+  if (isSearching && groups.length === 0) {
+    return (
+      <div className="flex items-center justify-center space-x-2 py-8 text-sm text-gray-500 dark:text-gray-400">
+        <Loader2 size={16} className="animate-spin" />
+        <span>搜索中...</span>
+      </div>
+    );
+  }
+
+  if (groups.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center text-gray-500 dark:text-gray-400 p-8">
+        <Search size={40} className="mb-3 opacity-50" />
+        <p className="text-center text-sm">没有找到包含“{query}”的消息</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-2">
+      {/* 本地搜索提示 */}
+      {source === 'local' && (
+        <div className="flex items-center space-x-1.5 px-2 pb-2 text-xs text-amber-700 dark:text-amber-400">
+          <HardDrive size={12} />
+          <span>服务器搜索不可用，仅显示本地缓存中的结果</span>
+        </div>
+      )}
+
+      {groups.map(group => (
+        <div key={group.conversation_id} className="mb-3">
+          {/* 对话标题 */}
+          <div className="flex items-center space-x-1.5 px-2 py-1 text-xs font-medium text-gray-500 dark:text-gray-400">
+            <MessageCircle size={12} className="flex-shrink-0" />
+            <span className="truncate">
+              {getConversationTitle(group.conversation_id, group.conversation_title)}
+            </span>
+            <span className="flex-shrink-0">({group.results.length})</span>
+          </div>
+
+          {/* 命中的消息 */}
+          {group.results.map(result => (
+            <button
+              key={`${result.conversation_id}-${result.message_id}`}
+              onClick={() => onSelectResult(result)}
+              className="w-full text-left rounded-lg p-2 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+            >
+              <div className="flex items-start space-x-2">
+                {result.role === MessageRole.USER ? (
+                  <User size={14} className="flex-shrink-0 mt-0.5 text-blue-500" />
+                ) : (
+                  <Bot size={14} className="flex-shrink-0 mt-0.5 text-gray-500" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-800 dark:text-gray-200 line-clamp-3 break-words">
+                    {renderHighlighted(result.snippet || buildSnippet(result.content, query))}
+                  </p>
+                  <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+                    {formatDate(result.created_at)}
+                  </p>
+                </div>
+              </div>
+            </button>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SearchResults;
\ No newline at end of file
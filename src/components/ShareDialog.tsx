@@ -0,0 +1,275 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Share2, Link, Copy, Check, Trash2, Loader2 } from 'lucide-react';
+import { ConversationShare, MessageRole, ShareDialogProps } from '../types';
+import { apiService } from '../services/api';
+import { getShareUrl, copyToClipboard } from '../utils/share';
+import clsx from 'clsx';
+import toast from 'react-hot-toast';
+
+const ShareDialog: React.FC<ShareDialogProps> = ({
+  isOpen,
+  conversationId,
+  title,
+  messages,
+  onClose,
+}) => {
+  const [shares, setShares] = useState<ConversationShare[]>([]);
+  const [isLoadingShares, setIsLoadingShares] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [scope, setScope] = useState<'all' | 'range'>('all');
+  const [range, setRange] = useState({ start: 0, end: 0 });
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [confirmRevokeId, setConfirmRevokeId] = useState<string | null>(null);
+
+  // 只能分享已保存到服务器的消息
+  const sharableMessages = messages.filter(msg => !msg.send_status && msg.content);
+  // 打开时用于初始化选择范围，消息变化不需要重新加载分享链接
+  const sharableCountRef = useRef(sharableMessages.length);
+  sharableCountRef.current = sharableMessages.length;
+
+  // 打开时加载该对话已有的分享链接
+  useEffect(() => {
+    if (!isOpen || !conversationId) return;
+
+    let cancelled = false;
+    setScope('all');
+    setRange({ start: 0, end: Math.max(0, sharableCountRef.current - 1) });
+    setIsLoadingShares(true);
+    apiService.getConversationShares(conversationId)
+      .then(result => {
+        if (!cancelled) setShares(result);
+      })
+      .catch(error => {
+        console.error('加载分享链接失败:', error);
+        if (!cancelled) setShares([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingShares(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, conversationId]);
+
+  if (!isOpen || !conversationId) return null;
+
+  const handleCopy = async (shareId: string) => {
+    if (await copyToClipboard(getShareUrl(shareId))) {
+      setCopiedId(shareId);
+      setTimeout(() => setCopiedId(null), 2000);
+    } else {
+      toast.error('复制失败');
+    }
+  };
+
+  // 创建分享链接并复制到剪贴板
+  const handleCreate = async () => {
+    // 分享整个对话时只包含当前分支上的消息
+    const selected = (scope === 'range'
+      ? sharableMessages.slice(range.start, range.end + 1)
+      : sharableMessages
+    ).map(msg => msg.id);
+    if (selected.length === 0) {
+      toast.error('请选择要分享的消息');
+      return;
+    }
+
+    try {
+      setIsCreating(true);
+      const share = await apiService.createShare({
+        conversation_id: conversationId,
+        title,
+        message_ids: selected,
+      });
+      setShares(prev => [share, ...prev]);
+      await handleCopy(share.share_id);
+      toast.success('分享链接已创建并复制');
+    } catch (error: any) {
+      console.error('创建分享链接失败:', error);
+      toast.error(error.message || '创建分享链接失败');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  // 撤销分享，链接将立即失效
+  const handleRevoke = async (shareId: string) => {
+    try {
+      await apiService.revokeShare(shareId);
+      setShares(prev => prev.filter(share => share.share_id !== shareId));
+      setConfirmRevokeId(null);
+      toast.success('分享链接已撤销');
+    } catch (error: any) {
+      console.error('撤销分享链接失败:', error);
+      toast.error('撤销分享链接失败');
+    }
+  };
+
+  // 范围选择中显示的消息摘要
+  const describeMessage = (index: number) => {
+    const message = sharableMessages[index];
+    const role = message.role === MessageRole.USER ? '用户' : message.role === MessageRole.ASSISTANT ? 'AI' : '系统';
+    const text = message.content.replace(/\s+/g, ' ');
+    return `${index + 1}. ${role}：${text.length > 30 ? text.substring(0, 30) + '...' : text}`;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg bg-white dark:bg-gray-800 rounded-2xl shadow-xl flex flex-col max-h-[80vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* 头部 */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-2">
+            <Share2 size={18} className="text-blue-500" />
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+              分享对话
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-5">
+          {/* 分享范围 */}
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              任何获得链接的人都可以查看分享的内容，但无法继续对话。
+            </p>
+            <div className="flex space-x-2">
+              {(['all', 'range'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setScope(option)}
+                  disabled={option === 'range' && sharableMessages.length === 0}
+                  className={clsx(
+                    'flex-1 px-3 py-2 rounded-lg text-sm border transition-colors disabled:opacity-50',
+                    scope === option
+                      ? 'border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300'
+                      : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                  )}
+                >
+                  {option === 'all' ? '整个对话' : '部分消息'}
+                </button>
+              ))}
+            </div>
+
+            {scope === 'range' && (
+              <div className="space-y-2">
+                {(['start', 'end'] as const).map(field => (
+                  <div key={field} className="flex items-center space-x-2">
+                    <label className="w-12 text-xs text-gray-500 dark:text-gray-400">
+                      {field === 'start' ? '从' : '到'}
+                    </label>
+                    <select
+                      value={range[field]}
+                      onChange={(e) => {
+                        const value = parseInt(e.target.value, 10);
+                        setRange(prev => field === 'start'
+                          ? { start: value, end: Math.max(value, prev.end) }
+                          : { start: Math.min(value, prev.start), end: value }
+                        );
+                      }}
+                      className="flex-1 px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-xs"
+                    >
+                      {sharableMessages.map((_, index) => (
+                        <option key={index} value={index}>{describeMessage(index)}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <button
+              onClick={handleCreate}
+              disabled={isCreating}
+              className="btn-primary w-full text-sm flex items-center justify-center space-x-2"
+            >
+              {isCreating ? <Loader2 size={14} className="animate-spin" /> : <Link size={14} />}
+              <span>创建分享链接</span>
+            </button>
+          </div>
+
+          {/* 已有的分享链接 */}
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">已创建的链接</h3>
+            {isLoadingShares ? (
+              <div className="flex justify-center py-4">
+                <Loader2 size={16} className="animate-spin text-gray-400" />
+              </div>
+            ) : shares.length === 0 ? (
+              <p className="text-xs text-gray-500 dark:text-gray-400">还没有分享过这个对话</p>
+            ) : (
+              <div className="space-y-2">
+                {shares.map(share => (
+                  <div
+                    key={share.share_id}
+                    className="rounded-lg border border-gray-200 dark:border-gray-700 p-3"
+                  >
+                    <div className="flex items-center justify-between space-x-2">
+                      <div className="min-w-0">
+                        <p className="text-xs font-mono text-gray-700 dark:text-gray-300 truncate">
+                          {getShareUrl(share.share_id)}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                          {share.message_ids?.length ? `${share.message_ids.length} 条消息` : '整个对话'}
+                          {' · '}
+                          {new Date(share.created_at).toLocaleDateString('zh-CN')}
+                          {share.view_count !== undefined && ` · ${share.view_count} 次查看`}
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-1 flex-shrink-0">
+                        <button
+                          onClick={() => handleCopy(share.share_id)}
+                          className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500"
+                          title="复制链接"
+                        >
+                          {copiedId === share.share_id ? <Check size={14} /> : <Copy size={14} />}
+                        </button>
+                        <button
+                          onClick={() => setConfirmRevokeId(confirmRevokeId === share.share_id ? null : share.share_id)}
+                          className="p-1.5 rounded hover:bg-red-50 dark:hover:bg-red-900/20 text-red-500"
+                          title="撤销分享"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    </div>
+
+                    {/* 撤销确认 */}
+                    {confirmRevokeId === share.share_id && (
+                      <div className="flex items-center justify-end space-x-2 mt-2 text-xs">
+                        <span className="text-gray-500 dark:text-gray-400">撤销后链接将无法访问</span>
+                        <button
+                          onClick={() => setConfirmRevokeId(null)}
+                          className="px-2 py-1 rounded text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                        >
+                          取消
+                        </button>
+                        <button
+                          onClick={() => handleRevoke(share.share_id)}
+                          className="px-2 py-1 rounded bg-red-500 hover:bg-red-600 text-white"
+                        >
+                          撤销
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareDialog;
\ No newline at end of file
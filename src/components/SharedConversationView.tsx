@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Bot, Loader2, Eye, LinkIcon } from 'lucide-react';
+import { SharedConversation } from '../types';
+import ChatBubble from './ChatBubble';
+import { apiService } from '../services/api';
+
+// 公开的只读对话页面，无需登录
+const SharedConversationView: React.FC = () => {
+  const { shareId } = useParams<{ shareId: string }>();
+  const [conversation, setConversation] = useState<SharedConversation | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!shareId) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    apiService.getSharedConversation(shareId)
+      .then(result => {
+        if (cancelled) return;
+        setConversation(result);
+        setError(null);
+        document.title = result.title || '分享的对话';
+      })
+      .catch((err: any) => {
+        if (cancelled) return;
+        console.error('加载分享的对话失败:', err);
+        setError(err.status === 404 ? '分享链接不存在或已被撤销' : '加载分享的对话失败');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [shareId]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+        <Loader2 size={48} className="animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
+  if (error || !conversation) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex flex-col items-center justify-center text-center p-8">
+        <LinkIcon size={48} className="text-gray-400 mb-4" />
+        <p className="text-gray-700 dark:text-gray-300 mb-6">{error || '分享链接不存在或已被撤销'}</p>
+        <a href="/" className="btn-primary text-sm">
+          前往 AI 助手
+        </a>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      {/* 顶部导航栏 */}
+      <header className="sticky top-0 z-10 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 px-4 py-3">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <div className="flex items-center space-x-2 min-w-0">
+            <Bot className="text-blue-500 flex-shrink-0" size={24} />
+            <h1 className="text-lg font-semibold text-gray-900 dark:text-gray-100 truncate">
+              {conversation.title || '分享的对话'}
+            </h1>
+          </div>
+          <span className="flex items-center space-x-1 px-2.5 py-1 rounded-full text-xs bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300 flex-shrink-0">
+            <Eye size={12} />
+            <span>只读</span>
+          </span>
+        </div>
+      </header>
+
+      {/* 消息列表 */}
+      <main className="max-w-4xl mx-auto p-4">
+        <p className="text-center text-xs text-gray-500 dark:text-gray-400 mb-6">
+          分享于 {new Date(conversation.created_at).toLocaleString('zh-CN')}
+        </p>
+        <div className="space-y-4">
+          {conversation.messages.map(message => (
+            <ChatBubble key={message.id} message={message} />
+          ))}
+        </div>
+        <div className="text-center py-8">
+          <a href="/" className="text-sm text-blue-500 hover:text-blue-600">
+            使用 AI 助手开始你自己的对话
+          </a>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default SharedConversationView;
\ No newline at end of file
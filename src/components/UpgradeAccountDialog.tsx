@@ -0,0 +1,240 @@
+import React, { useState } from 'react';
+import { X, ShieldCheck, Mail, Lock, Loader2, MailCheck, Github, Chrome } from 'lucide-react';
+import { OAuthProvider, UpgradeAccountDialogProps } from '../types';
+import { useAuth } from '../hooks/useAuth';
+import { supabaseService } from '../services/supabaseService';
+import clsx from 'clsx';
+import toast from 'react-hot-toast';
+
+// 保存匿名用户的对话：注册新账户或登录已有账户，对话迁移到正式账户
+const UpgradeAccountDialog: React.FC<UpgradeAccountDialogProps> = ({ isOpen, onUpgraded, onClose }) => {
+  const { upgradeAccount } = useAuth();
+  const [mode, setMode] = useState<'register' | 'login'>('register');
+  const [formData, setFormData] = useState({ email: '', password: '', confirmPassword: '' });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+  // 邮箱或密码错误时显示在表单中
+  const [credentialError, setCredentialError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const isSupabaseEnabled = supabaseService.isConfigured();
+  // 升级完成后回到当前页面
+  const redirect = window.location.pathname + window.location.search;
+
+  const handleClose = () => {
+    if (isSubmitting) return;
+    setSentMessage(null);
+    setCredentialError(null);
+    setFormData({ email: '', password: '', confirmPassword: '' });
+    onClose();
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+    setCredentialError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.email || !formData.password) {
+      toast.error('请填写邮箱和密码');
+      return;
+    }
+    if (mode === 'register') {
+      if (formData.password.length < 6) {
+        toast.error('密码至少需要6位');
+        return;
+      }
+      if (formData.password !== formData.confirmPassword) {
+        toast.error('两次输入的密码不一致');
+        return;
+      }
+    }
+
+    try {
+      setIsSubmitting(true);
+      if (mode === 'login') {
+        await upgradeAccount({ email: formData.email, password: formData.password });
+      } else if (isSupabaseEnabled) {
+        // 需要验证邮箱时，点击邮件中的链接后在回调页面完成升级
+        let session;
+        try {
+          session = await supabaseService.signUp(formData.email, formData.password, redirect, 'upgrade');
+        } catch (error: any) {
+          console.error('注册失败:', error);
+          toast.error(error.message || '注册失败');
+          return;
+        }
+        if (!session) {
+          setSentMessage(`验证邮件已发送至 ${formData.email}，点击邮件中的链接即可完成注册并保存对话`);
+          return;
+        }
+        await upgradeAccount({ supabase_token: session.access_token });
+      } else {
+        await upgradeAccount({ email: formData.email, password: formData.password });
+      }
+      onUpgraded();
+      setFormData({ email: '', password: '', confirmPassword: '' });
+      onClose();
+    } catch (error: any) {
+      // 凭证错误在表单中提示，其他错误已在useAuth中处理
+      if (error.status === 401 || error.status === 403) {
+        setCredentialError('邮箱或密码错误');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // 第三方登录后在回调页面完成升级
+  const handleOAuth = async (provider: OAuthProvider) => {
+    try {
+      setIsSubmitting(true);
+      await supabaseService.signInWithOAuth(provider, redirect, 'upgrade');
+    } catch (error: any) {
+      console.error('第三方登录失败:', error);
+      toast.error(error.message || '第三方登录失败');
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClassName = 'w-full pl-9 pr-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={handleClose}>
+      <div
+        className="w-full max-w-md bg-white dark:bg-gray-800 rounded-2xl shadow-xl flex flex-col max-h-[80vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* 头部 */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-2">
+            <ShieldCheck size={18} className="text-blue-500" />
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+              保存我的对话
+            </h2>
+          </div>
+          <button
+            onClick={handleClose}
+            disabled={isSubmitting}
+            className="p-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-500 disabled:opacity-50"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-4">
+          {sentMessage ? (
+            <div className="text-center py-6">
+              <MailCheck size={40} className="mx-auto text-blue-500 mb-3" />
+              <p className="text-sm text-gray-600 dark:text-gray-400">{sentMessage}</p>
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                匿名会话的数据不会永久保存。注册或登录后，当前的所有对话都会保存到您的账户中。
+              </p>
+
+              {/* 注册或登录已有账户 */}
+              <div className="flex rounded-lg bg-gray-100 dark:bg-gray-700 p-1">
+                {(['register', 'login'] as const).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => {
+                      setMode(option);
+                      setCredentialError(null);
+                    }}
+                    className={clsx(
+                      'flex-1 py-1.5 px-3 rounded-md text-sm font-medium transition-all duration-200',
+                      mode === option
+                        ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-gray-100 shadow-sm'
+                        : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100'
+                    )}
+                  >
+                    {option === 'register' ? '注册新账户' : '登录已有账户'}
+                  </button>
+                ))}
+              </div>
+
+              <form onSubmit={handleSubmit} className="space-y-3">
+                <div className="relative">
+                  <Mail size={16} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                  <input
+                    type="email"
+                    name="email"
+                    value={formData.email}
+                    onChange={handleInputChange}
+                    placeholder="邮箱地址"
+                    className={inputClassName}
+                    required
+                  />
+                </div>
+                <div className="relative">
+                  <Lock size={16} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                  <input
+                    type="password"
+                    name="password"
+                    value={formData.password}
+                    onChange={handleInputChange}
+                    placeholder="密码"
+                    className={inputClassName}
+                    required
+                  />
+                </div>
+                {mode === 'register' && (
+                  <div className="relative">
+                    <Lock size={16} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                    <input
+                      type="password"
+                      name="confirmPassword"
+                      value={formData.confirmPassword}
+                      onChange={handleInputChange}
+                      placeholder="确认密码"
+                      className={inputClassName}
+                      required
+                    />
+                  </div>
+                )}
+                {credentialError && (
+                  <p className="text-sm text-red-600 dark:text-red-400">{credentialError}</p>
+                )}
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="btn-primary w-full text-sm flex items-center justify-center space-x-2"
+                >
+                  {isSubmitting && <Loader2 size={14} className="animate-spin" />}
+                  <span>{mode === 'register' ? '注册并保存对话' : '登录并保存对话'}</span>
+                </button>
+              </form>
+
+              {isSupabaseEnabled && (
+                <div className="grid grid-cols-2 gap-3">
+                  {([
+                    { provider: 'github', label: 'GitHub', icon: Github },
+                    { provider: 'google', label: 'Google', icon: Chrome },
+                  ] as const).map(({ provider, label, icon: Icon }) => (
+                    <button
+                      key={provider}
+                      type="button"
+                      onClick={() => handleOAuth(provider)}
+                      disabled={isSubmitting}
+                      className="flex items-center justify-center space-x-2 py-2 px-3 border border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+                    >
+                      <Icon size={16} />
+                      <span>{label}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UpgradeAccountDialog;
\ No newline at end of file
@@ -2,4 +2,15 @@ export { default as ChatBubble } from './ChatBubble';
 export { default as ChatInput } from './ChatInput';
 export { default as ConversationList } from './ConversationList';
 export { default as ChatInterface } from './ChatInterface';
-export { default as LoginForm } from './LoginForm';
\ No newline at end of file
+export { default as LoginForm } from './LoginForm';
+export { default as GenerationSettingsPanel } from './GenerationSettingsPanel';
+export { default as PersonaManager } from './PersonaManager';
+export { default as SearchResults } from './SearchResults';
+export { default as ExportDialog } from './ExportDialog';
+export { default as ImportDialog } from './ImportDialog';
+export { default as ShareDialog } from './ShareDialog';
+export { default as SharedConversationView } from './SharedConversationView';
+export { default as AuthCallback } from './AuthCallback';
+export { default as UpgradeAccountDialog } from './UpgradeAccountDialog';
+export { default as AccountSettings } from './AccountSettings';
+export { default as NotificationCenter } from './NotificationCenter';
\ No newline at end of file
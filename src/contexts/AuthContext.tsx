@@ -0,0 +1,294 @@
+import React, { createContext, useState, useEffect, useCallback, useMemo } from 'react';
+import { User, LoginRequest, UpgradeAccountRequest, UseAuthReturn, AuthProviderProps, ApiError } from '../types';
+import { apiService } from '../services/api';
+import { pushService } from '../services/pushService';
+import toast from 'react-hot-toast';
+
+// 提前刷新token的时间
+const TOKEN_REFRESH_AHEAD_MS = 2 * 60 * 1000;
+// 刷新因网络错误失败后的重试间隔
+const TOKEN_REFRESH_RETRY_MS = 30 * 1000;
+
+export const AuthContext = createContext<UseAuthReturn | null>(null);
+
+// 读取本地保存的用户信息
+const getStoredUser = (): User | null => {
+  try {
+    const stored = localStorage.getItem('user');
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// 全应用共享的认证状态，所有组件通过useAuth读取
+export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
+  const [user, setUser] = useState<User | null>(null);
+  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isInitializing, setIsInitializing] = useState<boolean>(true);
+
+  // 初始化认证状态
+  const initializeAuth = useCallback(async () => {
+    try {
+      const token = apiService.getAuthToken();
+      if (!token) {
+        return;
+      }
+
+      // 验证token有效性
+      const validation = await apiService.validateToken();
+      if (validation.valid) {
+        // 获取用户信息
+        const userData = await apiService.getCurrentUser();
+        setUser(userData);
+        setIsAuthenticated(true);
+      } else {
+        // Token无效，清除本地存储
+        apiService.clearAuthToken();
+      }
+    } catch (error) {
+      console.error('初始化认证失败:', error);
+      const status = (error as ApiError).status;
+      if (status === 401 || status === 403) {
+        apiService.clearAuthToken();
+      } else {
+        // 网络错误（如离线时刷新页面）保留登录状态，继续使用本地缓存和发件箱
+        const storedUser = getStoredUser();
+        if (storedUser) {
+          setUser(storedUser);
+          setIsAuthenticated(true);
+        }
+      }
+    } finally {
+      setIsLoading(false);
+      setIsInitializing(false);
+    }
+  }, []);
+
+  // 登录
+  const login = useCallback(async (request: LoginRequest) => {
+    try {
+      setIsLoading(true);
+      const response = await apiService.login(request);
+      
+      // 保存token及过期时间
+      apiService.setAuthToken(response.access_token, response.expires_in);
+      
+      // 设置用户信息
+      const userData: User = {
+        id: response.user_id,
+        email: response.email,
+        is_anonymous: response.is_anonymous,
+      };
+      
+      // 保存用户信息到localStorage
+      localStorage.setItem('user', JSON.stringify(userData));
+      
+      setUser(userData);
+      setIsAuthenticated(true);
+      setIsLoading(false);
+      
+      // 显示成功消息
+      if (request.anonymous) {
+        toast.success('匿名登录成功！');
+      } else {
+         toast.success('登录成功！');
+       }
+      
+    } catch (error: any) {
+      console.error('登录失败:', error);
+      toast.error(error.message || '登录失败，请重试');
+      setIsLoading(false);
+      throw error;
+    }
+  }, []);
+
+  // 升级匿名账户，升级后使用正式账户的token，对话已由服务器迁移
+  const upgradeAccount = useCallback(async (request: UpgradeAccountRequest) => {
+    try {
+      const response = await apiService.upgradeAccount(request);
+      apiService.setAuthToken(response.access_token, response.expires_in);
+      
+      const userData: User = {
+        id: response.user_id,
+        email: response.email,
+        is_anonymous: response.is_anonymous,
+      };
+      localStorage.setItem('user', JSON.stringify(userData));
+      setUser(userData);
+      setIsAuthenticated(true);
+      
+      toast.success('账户已升级，对话已保存');
+    } catch (error: any) {
+      console.error('升级账户失败:', error);
+      // 凭证错误由调用方在表单中提示
+      if (error.status !== 401 && error.status !== 403) {
+        toast.error(error.message || '升级账户失败，请重试');
+      }
+      throw error;
+    }
+  }, []);
+
+  // 重新获取用户信息
+  const refreshUser = useCallback(async () => {
+    const userData = await apiService.getCurrentUser();
+    localStorage.setItem('user', JSON.stringify(userData));
+    setUser(userData);
+  }, []);
+
+  // 删除账户，成功后清除本地状态
+  const deleteAccount = useCallback(async (password?: string) => {
+    await apiService.deleteAccount(password);
+    apiService.clearAuthToken();
+    setUser(null);
+    setIsAuthenticated(false);
+    toast.success('账户已删除');
+  }, []);
+
+  // 登出
+  const logout = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      
+      // 取消Web Push订阅，避免退出后继续向该浏览器推送此账户的通知（需要在登出前调用）
+      try {
+        await pushService.unsubscribe();
+      } catch (error) {
+        console.warn('取消推送订阅失败:', error);
+      }
+      
+      // 调用后端登出API
+      try {
+        await apiService.logout();
+      } catch (error) {
+        // 即使后端登出失败，也要清除本地状态
+        console.warn('后端登出失败:', error);
+      }
+      
+      // 清除本地状态
+      apiService.clearAuthToken();
+      setUser(null);
+      setIsAuthenticated(false);
+      
+      toast.success('已退出登录');
+    } catch (error: any) {
+      console.error('登出失败:', error);
+      toast.error('登出失败');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // 刷新token
+  const refreshToken = useCallback(async () => {
+    try {
+      // token由apiService保存，并发刷新会复用同一个请求
+      const response = await apiService.refreshToken();
+      
+      // 更新用户信息
+      const userData: User = {
+        id: response.user_id,
+        email: response.email,
+        is_anonymous: response.is_anonymous,
+      };
+      
+      setUser(userData);
+      localStorage.setItem('user', JSON.stringify(userData));
+    } catch (error: any) {
+      console.error('刷新token失败:', error);
+      // 服务器拒绝刷新时才清除认证状态，网络错误时保留登录
+      if (error.status === 401 || error.status === 403) {
+        apiService.clearAuthToken();
+        setUser(null);
+        setIsAuthenticated(false);
+      }
+      throw error;
+    }
+  }, []);
+
+  // 组件挂载时初始化认证状态
+  useEffect(() => {
+    initializeAuth();
+  }, [initializeAuth]);
+
+  // 在token过期前刷新，过期时间未知时每30分钟刷新一次
+  useEffect(() => {
+    if (!isAuthenticated || !user) return;
+
+    let timer: ReturnType<typeof setTimeout>;
+    let cancelled = false;
+    const schedule = (retryDelay?: number) => {
+      if (cancelled) return;
+      const expiresAt = apiService.getTokenExpiresAt();
+      const delay = retryDelay ?? (expiresAt
+        ? Math.max(expiresAt - Date.now() - TOKEN_REFRESH_AHEAD_MS, 0)
+        : 30 * 60 * 1000);
+      timer = setTimeout(async () => {
+        // 其他标签页已刷新过token时只需重新计时
+        const latestExpiresAt = apiService.getTokenExpiresAt();
+        if (!retryDelay && latestExpiresAt && latestExpiresAt - Date.now() > TOKEN_REFRESH_AHEAD_MS) {
+          schedule();
+          return;
+        }
+        try {
+          await refreshToken();
+          schedule();
+        } catch (error: any) {
+          console.error('自动刷新token失败:', error);
+          // 网络错误时稍后重试，认证失败时refreshToken已清除登录状态
+          if (error.status !== 401 && error.status !== 403) {
+            schedule(TOKEN_REFRESH_RETRY_MS);
+          }
+        }
+      }, delay);
+    };
+    schedule();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isAuthenticated, user, refreshToken]);
+
+  // 同步其他标签页的登录、登出和token刷新
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== null && event.key !== 'access_token' && event.key !== 'user') return;
+
+      if (!apiService.getAuthToken()) {
+        // 其他标签页已登出，同时清除本标签页的缓存
+        apiService.clearAuthToken();
+        setUser(null);
+        setIsAuthenticated(false);
+        return;
+      }
+
+      const storedUser = getStoredUser();
+      if (storedUser) {
+        setUser(storedUser);
+        setIsAuthenticated(true);
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const value = useMemo<UseAuthReturn>(() => ({
+    user,
+    isAuthenticated,
+    isLoading,
+    isInitializing,
+    login,
+    upgradeAccount,
+    refreshUser,
+    deleteAccount,
+    logout,
+    refreshToken,
+  }), [user, isAuthenticated, isLoading, isInitializing, login, upgradeAccount, refreshUser, deleteAccount, logout, refreshToken]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export default AuthProvider;
\ No newline at end of file
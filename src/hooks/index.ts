@@ -1,2 +1,10 @@
 export { default as useAuth } from './useAuth';
-export { default as useChat } from './useChat';
\ No newline at end of file
+export { default as useChat } from './useChat';
+export { default as usePersonas } from './usePersonas';
+export { default as useOnlineStatus } from './useOnlineStatus';
+export { default as useSearch } from './useSearch';
+export { default as useAttachments } from './useAttachments';
+export { default as useVoiceInput } from './useVoiceInput';
+export { default as useReadAloud } from './useReadAloud';
+export { default as useUnreadBadge } from './useUnreadBadge';
+export { default as useDesktopNotifications } from './useDesktopNotifications';
\ No newline at end of file
@@ -0,0 +1,119 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { PendingAttachment, UseAttachmentsReturn } from '../types';
+import { apiService } from '../services/api';
+import { isImageType, validateAttachmentFile, MAX_ATTACHMENTS } from '../utils/attachments';
+import toast from 'react-hot-toast';
+
+// 输入框中的附件：选择后立即上传，发送消息时只携带附件ID
+export const useAttachments = (): UseAttachmentsReturn => {
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+  const attachmentsRef = useRef<PendingAttachment[]>(attachments);
+  attachmentsRef.current = attachments;
+  // 进行中的上传，移除附件时取消
+  const controllersRef = useRef<Map<string, AbortController>>(new Map());
+
+  const patchAttachment = useCallback((localId: string, updates: Partial<PendingAttachment>) => {
+    setAttachments(prev => prev.map(item => item.local_id === localId ? { ...item, ...updates } : item));
+  }, []);
+
+  const upload = useCallback(async (item: PendingAttachment) => {
+    const controller = new AbortController();
+    controllersRef.current.set(item.local_id, controller);
+    patchAttachment(item.local_id, { status: 'uploading', progress: 0, error: undefined });
+
+    try {
+      const attachment = await apiService.uploadAttachment(
+        item.file,
+        progress => patchAttachment(item.local_id, { progress }),
+        controller.signal
+      );
+      patchAttachment(item.local_id, { status: 'uploaded', progress: 100, attachment });
+    } catch (error: any) {
+      if (controller.signal.aborted) return;
+      console.error('上传附件失败:', error);
+      patchAttachment(item.local_id, { status: 'failed', error: error.message || '上传失败' });
+    } finally {
+      controllersRef.current.delete(item.local_id);
+    }
+  }, [patchAttachment]);
+
+  // 添加文件并开始上传，跳过不支持或超出数量的文件
+  const addFiles = useCallback((files: File[]) => {
+    const available = MAX_ATTACHMENTS - attachmentsRef.current.length;
+    if (files.length > available) {
+      toast.error(`每条消息最多添加 ${MAX_ATTACHMENTS} 个附件`);
+    }
+
+    const items: PendingAttachment[] = [];
+    files.slice(0, Math.max(available, 0)).forEach(file => {
+      const error = validateAttachmentFile(file);
+      if (error) {
+        toast.error(error);
+        return;
+      }
+      items.push({
+        local_id: uuidv4(),
+        file,
+        preview_url: isImageType(file.type) ? URL.createObjectURL(file) : undefined,
+        progress: 0,
+        status: 'uploading',
+      });
+    });
+
+    if (items.length === 0) return;
+    setAttachments(prev => [...prev, ...items]);
+    items.forEach(upload);
+  }, [upload]);
+
+  const removeAttachment = useCallback((localId: string) => {
+    controllersRef.current.get(localId)?.abort();
+    const item = attachmentsRef.current.find(attachment => attachment.local_id === localId);
+    if (item?.preview_url) URL.revokeObjectURL(item.preview_url);
+    setAttachments(prev => prev.filter(attachment => attachment.local_id !== localId));
+  }, []);
+
+  const retryAttachment = useCallback((localId: string) => {
+    const item = attachmentsRef.current.find(attachment => attachment.local_id === localId);
+    if (item && item.status === 'failed') {
+      upload(item);
+    }
+  }, [upload]);
+
+  // 发送后清空
+  const clearAttachments = useCallback(() => {
+    attachmentsRef.current.forEach(item => {
+      controllersRef.current.get(item.local_id)?.abort();
+      if (item.preview_url) URL.revokeObjectURL(item.preview_url);
+    });
+    setAttachments([]);
+  }, []);
+
+  // 卸载时取消上传并释放预览地址
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      controllers.forEach(controller => controller.abort());
+      attachmentsRef.current.forEach(item => {
+        if (item.preview_url) URL.revokeObjectURL(item.preview_url);
+      });
+    };
+  }, []);
+
+  const uploadedAttachments = useMemo(
+    () => attachments.filter(item => item.attachment).map(item => item.attachment!),
+    [attachments]
+  );
+
+  return {
+    attachments,
+    isUploading: attachments.some(item => item.status === 'uploading'),
+    uploadedAttachments,
+    addFiles,
+    removeAttachment,
+    retryAttachment,
+    clearAttachments,
+  };
+};
+
+export default useAttachments;
\ No newline at end of file
@@ -1,72 +1,447 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, useMemo, useEffect } from 'react';
 import {
   ChatMessage,
   Conversation,
   UseChatReturn,
   MessageRole,
-  StreamChunk
+  MessageTree,
+  StreamChunk,
+  GenerationSettings,
+  ConversationPersona,
+  ChatRequest,
+  Attachment,
+  OutboxItem,
+  ConversationHistory,
+  ConversationUpdate
 } from '../types';
 import { apiService } from '../services/api';
+import { outboxService, OutboxEvent, isRetryableSendError } from '../services/outboxService';
+import {
+  createMessageTree,
+  buildMessageTree,
+  addMessage,
+  updateMessage,
+  removeMessage,
+  insertMessage,
+  prependMessages,
+  activateMessage,
+  getActivePath,
+  getBranchInfo as getTreeBranchInfo,
+  switchBranch as switchTreeBranch
+} from '../utils/messageTree';
+import {
+  DEFAULT_SETTINGS_KEY,
+  loadGenerationSettings,
+  saveGenerationSettings,
+  resolveGenerationSettings,
+  toRequestParams
+} from '../utils/generationSettings';
+import { loadConversationPersonas, saveConversationPersonas } from '../utils/personas';
+import { deriveConversationTitle, sortConversations } from '../utils/conversations';
 import toast from 'react-hot-toast';
 import { v4 as uuidv4 } from 'uuid';
 
+// 分页大小
+const HISTORY_PAGE_SIZE = 50;
+const CONVERSATIONS_PAGE_SIZE = 20;
+// 定位消息时最多向前加载的页数
+const REVEAL_MAX_PAGES = 20;
+
+// 判断是否还有更早的历史消息
+const hasOlderMessages = (history: ConversationHistory, loadedCount: number): boolean =>
+  history.has_more ?? loadedCount < history.total_messages;
+
+// 已从服务器加载的消息数，与total_messages一致只统计当前分支上已保存的消息
+const countLoadedMessages = (tree: MessageTree): number =>
+  getActivePath(tree).filter(msg => !msg.send_status).length;
+
+// 将发件箱中待发送的消息合并到消息树
+const mergeOutboxItems = (tree: MessageTree, items: OutboxItem[]): MessageTree => {
+  return items.reduce((result, item) => {
+    if (result.messages[item.message_id]) {
+      return updateMessage(result, item.message_id, msg => ({ ...msg, send_status: item.status }));
+    }
+    
+    // 父消息不在树中时接在当前分支末尾
+    const parentId = item.request.parent_message_id;
+    const path = getActivePath(result);
+    const resolvedParentId = parentId !== undefined && parentId !== null && result.messages[parentId]
+      ? parentId
+      : path.length > 0 ? path[path.length - 1].id : null;
+    
+    return addMessage(result, {
+      id: item.message_id,
+      role: MessageRole.USER,
+      content: item.request.message,
+      conversation_id: item.request.conversation_id,
+      created_at: item.created_at,
+      send_status: item.status,
+      attachments: item.attachments,
+    }, resolvedParentId);
+  }, tree);
+};
+
 export const useChat = (): UseChatReturn => {
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [messageTree, setMessageTree] = useState<MessageTree>(createMessageTree);
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [currentConversation, setCurrentConversation] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  
+  const [isStreaming, setIsStreaming] = useState<boolean>(false);
+  const [totalMessages, setTotalMessages] = useState<number>(0);
+  const [hasMoreMessages, setHasMoreMessages] = useState<boolean>(false);
+  const [isLoadingOlderMessages, setIsLoadingOlderMessages] = useState<boolean>(false);
+  const [totalConversations, setTotalConversations] = useState<number>(0);
+  const [isLoadingMoreConversations, setIsLoadingMoreConversations] = useState<boolean>(false);
+  const [showArchived, setShowArchived] = useState<boolean>(false);
+  const [settingsByConversation, setSettingsByConversation] =
+    useState<Record<string, GenerationSettings>>(loadGenerationSettings);
+  const [personasByConversation, setPersonasByConversation] =
+    useState<Record<string, ConversationPersona>>(loadConversationPersonas);
+
   // 用于存储流式响应的临时消息ID
   const streamingMessageRef = useRef<number | null>(null);
+  // 用于中止当前流式请求
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // 最近一次请求加载的对话，避免较慢的后台刷新覆盖已切换的对话
+  const requestedConversationRef = useRef<string | null>(null);
+  // 已尝试自动生成标题的对话
+  const titledConversationsRef = useRef<Set<string>>(new Set());
+
+  // 当前分支上的消息
+  const messages = useMemo(() => getActivePath(messageTree), [messageTree]);
+
+  // 当前对话的生成参数
+  const generationSettings = useMemo(
+    () => resolveGenerationSettings(settingsByConversation, currentConversation),
+    [settingsByConversation, currentConversation]
+  );
 
-  // 加载用户的所有对话
+  // 当前对话使用的角色
+  const activePersona = currentConversation ? personasByConversation[currentConversation] || null : null;
+
+  const hasMoreConversations = conversations.length < totalConversations;
+
+  // 置顶的对话排在前面
+  const sortedConversations = useMemo(() => sortConversations(conversations), [conversations]);
+
+  // 加载对话列表第一页（先显示缓存，再从服务器刷新；已归档的对话不缓存）
   const loadConversations = useCallback(async () => {
+    const cached = showArchived ? null : await apiService.getCachedUserConversations();
+    if (cached) {
+      setConversations(cached.conversations);
+      setTotalConversations(cached.total);
+    }
+    
     try {
-      const response = await apiService.getUserConversations();
+      const response = await apiService.getUserConversations(CONVERSATIONS_PAGE_SIZE, 0, showArchived);
       setConversations(response.conversations);
+      setTotalConversations(response.total);
     } catch (error: any) {
       console.error('加载对话列表失败:', error);
-      toast.error('加载对话列表失败');
+      if (!cached) {
+        toast.error('加载对话列表失败');
+      }
     }
-  }, []);
+  }, [showArchived]);
+
+  // 加载下一页对话
+  const loadMoreConversations = useCallback(async () => {
+    if (isLoadingMoreConversations || !hasMoreConversations) return;
+    
+    try {
+      setIsLoadingMoreConversations(true);
+      const response = await apiService.getUserConversations(
+        CONVERSATIONS_PAGE_SIZE,
+        conversations.length,
+        showArchived
+      );
+      setConversations(prev => {
+        const existingIds = new Set(prev.map(conv => conv.conversation_id));
+        return [...prev, ...response.conversations.filter(conv => !existingIds.has(conv.conversation_id))];
+      });
+      setTotalConversations(response.total);
+    } catch (error: any) {
+      console.error('加载更多对话失败:', error);
+      toast.error('加载更多对话失败');
+    } finally {
+      setIsLoadingMoreConversations(false);
+    }
+  }, [conversations.length, hasMoreConversations, isLoadingMoreConversations, showArchived]);
 
-  // 加载指定对话的历史消息
+  // 加载指定对话的历史消息（先显示缓存，再从服务器刷新）
   const loadConversationHistory = useCallback(async (conversationId: string) => {
+    requestedConversationRef.current = conversationId;
+    
+    const [cached, outboxItems] = await Promise.all([
+      apiService.getCachedConversationHistory(conversationId),
+      outboxService.getItems(conversationId),
+    ]);
+    if (requestedConversationRef.current !== conversationId) return;
+    if (cached) {
+      setMessageTree(mergeOutboxItems(buildMessageTree(cached.messages), outboxItems));
+      setTotalMessages(cached.total_messages);
+      setHasMoreMessages(hasOlderMessages(cached, cached.messages.length));
+      setCurrentConversation(conversationId);
+    }
+    
     try {
-      setIsLoading(true);
-      const history = await apiService.getConversationHistory(conversationId);
-      setMessages(history.messages);
+      if (!cached) {
+        setIsLoading(true);
+      }
+      const history = await apiService.getConversationHistory(conversationId, HISTORY_PAGE_SIZE);
+      if (requestedConversationRef.current !== conversationId) return;
+      setMessageTree(mergeOutboxItems(buildMessageTree(history.messages), outboxItems));
+      setTotalMessages(history.total_messages);
+      setHasMoreMessages(hasOlderMessages(history, history.messages.length));
       setCurrentConversation(conversationId);
     } catch (error: any) {
       console.error('加载对话历史失败:', error);
-      toast.error('加载对话历史失败');
+      if (!cached) {
+        toast.error('加载对话历史失败');
+      }
     } finally {
       setIsLoading(false);
     }
   }, []);
 
+  // 启动或切换归档视图时加载对话列表
+  useEffect(() => {
+    loadConversations();
+  }, [loadConversations]);
+
+  // 第一轮问答完成后自动生成对话标题，服务器生成失败时使用第一条消息
+  useEffect(() => {
+    if (!currentConversation || isLoading || isStreaming) return;
+    if (titledConversationsRef.current.has(currentConversation)) return;
+    
+    const conversation = conversations.find(conv => conv.conversation_id === currentConversation);
+    if (!conversation || conversation.title) return;
+    
+    const firstUserMessage = messages.find(msg => msg.role === MessageRole.USER && !msg.send_status);
+    const hasReply = messages.some(msg => msg.role === MessageRole.ASSISTANT && msg.content);
+    if (!firstUserMessage || !hasReply) return;
+    
+    const conversationId = currentConversation;
+    titledConversationsRef.current.add(conversationId);
+    
+    const generateTitle = async () => {
+      let title: string;
+      try {
+        title = (await apiService.generateConversationTitle(conversationId)).title;
+      } catch (error) {
+        title = deriveConversationTitle(firstUserMessage.content);
+        try {
+          await apiService.updateConversation(conversationId, { title });
+        } catch (updateError) {
+          console.error('保存对话标题失败:', updateError);
+        }
+      }
+      setConversations(prev => prev.map(conv =>
+        conv.conversation_id === conversationId && !conv.title ? { ...conv, title } : conv
+      ));
+    };
+    generateTitle();
+  }, [currentConversation, conversations, messages, isLoading, isStreaming]);
+
+  // 对话内容变化后写入本地缓存（包含所有分支，不含未发送的消息）
+  useEffect(() => {
+    if (!currentConversation || isLoading) return;
+    
+    const allMessages = Object.values(messageTree.messages).filter(msg => !msg.send_status);
+    if (allMessages.length === 0) return;
+    
+    apiService.cacheConversationHistory({
+      conversation_id: currentConversation,
+      messages: allMessages,
+      total_messages: Math.max(totalMessages, allMessages.length),
+    });
+  }, [messageTree, currentConversation, isLoading, totalMessages]);
+
+  // 加载更早的历史消息
+  const loadOlderMessages = useCallback(async () => {
+    if (!currentConversation || !hasMoreMessages || isLoadingOlderMessages || messages.length === 0) return;
+    
+    const conversationId = currentConversation;
+    try {
+      setIsLoadingOlderMessages(true);
+      const history = await apiService.getConversationHistory(
+        conversationId,
+        HISTORY_PAGE_SIZE,
+        messages[0].id
+      );
+      if (requestedConversationRef.current !== conversationId) return;
+      
+      setMessageTree(prev => prependMessages(prev, history.messages));
+      setTotalMessages(history.total_messages);
+      setHasMoreMessages(
+        history.messages.length > 0 &&
+        hasOlderMessages(history, countLoadedMessages(prependMessages(messageTree, history.messages)))
+      );
+    } catch (error: any) {
+      console.error('加载更早的消息失败:', error);
+      toast.error('加载更早的消息失败');
+    } finally {
+      setIsLoadingOlderMessages(false);
+    }
+  }, [currentConversation, hasMoreMessages, isLoadingOlderMessages, messages, messageTree]);
+
+  // 打开对话并定位到指定消息，消息不在已加载的范围内时继续向前加载
+  const revealMessage = useCallback(async (conversationId: string, messageId: number) => {
+    requestedConversationRef.current = conversationId;
+    
+    try {
+      setIsLoading(true);
+      let tree: MessageTree;
+      let hasMore: boolean;
+      let total: number;
+      
+      if (conversationId === currentConversation) {
+        tree = messageTree;
+        hasMore = hasMoreMessages;
+        total = totalMessages;
+      } else {
+        const [history, outboxItems] = await Promise.all([
+          apiService.getConversationHistory(conversationId, HISTORY_PAGE_SIZE),
+          outboxService.getItems(conversationId),
+        ]);
+        tree = mergeOutboxItems(buildMessageTree(history.messages), outboxItems);
+        hasMore = hasOlderMessages(history, history.messages.length);
+        total = history.total_messages;
+      }
+      
+      for (let page = 0; !tree.messages[messageId] && hasMore && page < REVEAL_MAX_PAGES; page++) {
+        const path = getActivePath(tree);
+        if (path.length === 0) break;
+        const older = await apiService.getConversationHistory(conversationId, HISTORY_PAGE_SIZE, path[0].id);
+        if (requestedConversationRef.current !== conversationId) return false;
+        tree = prependMessages(tree, older.messages);
+        hasMore = older.messages.length > 0 &&
+          hasOlderMessages(older, countLoadedMessages(tree));
+        total = older.total_messages;
+      }
+      
+      if (requestedConversationRef.current !== conversationId) return false;
+      setMessageTree(activateMessage(tree, messageId));
+      setTotalMessages(total);
+      setHasMoreMessages(hasMore);
+      setCurrentConversation(conversationId);
+      return !!tree.messages[messageId];
+    } catch (error: any) {
+      console.error('定位消息失败:', error);
+      toast.error('打开对话失败');
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentConversation, messageTree, hasMoreMessages, totalMessages]);
+
+  // 处理发件箱事件，同步消息状态
+  useEffect(() => {
+    const handleOutboxEvent = (event: OutboxEvent) => {
+      const { item } = event;
+      
+      if (event.type === 'updated') {
+        setMessageTree(prev => prev.messages[item.message_id]
+          ? updateMessage(prev, item.message_id, msg => ({ ...msg, send_status: item.status }))
+          : prev
+        );
+        return;
+      }
+      
+      if (event.type === 'removed') {
+        setMessageTree(prev => removeMessage(prev, item.message_id));
+        return;
+      }
+      
+      // 发送成功：替换临时ID并补上AI回复
+      const { response } = event;
+      setMessageTree(prev => {
+        if (!prev.messages[item.message_id]) return prev;
+        const updated = updateMessage(prev, item.message_id, msg => ({
+          ...msg,
+          id: response.user_message_id,
+          conversation_id: response.conversation_id,
+          send_status: undefined,
+        }));
+        return insertMessage(updated, {
+          id: response.assistant_message_id,
+          role: MessageRole.ASSISTANT,
+          content: response.message,
+          conversation_id: response.conversation_id,
+          created_at: new Date().toISOString(),
+          model_used: response.model_used,
+          tokens_used: response.tokens_used,
+        }, response.user_message_id);
+      });
+      
+      // 离线时开始的新对话
+      if (!item.request.conversation_id && requestedConversationRef.current === null) {
+        requestedConversationRef.current = response.conversation_id;
+        setCurrentConversation(response.conversation_id);
+      }
+      loadConversations();
+    };
+    
+    const unsubscribe = outboxService.subscribe(handleOutboxEvent);
+    
+    // 恢复尚未开始对话时排队的消息，并开始处理发件箱
+    outboxService.getItems(null).then(items => {
+      if (items.length > 0 && requestedConversationRef.current === null) {
+        setMessageTree(prev => mergeOutboxItems(prev, items));
+      }
+    });
+    outboxService.start();
+    
+    return unsubscribe;
+  }, [loadConversations]);
+
   // 选择对话
   const selectConversation = useCallback(async (conversationId: string) => {
     if (conversationId === currentConversation) return;
     await loadConversationHistory(conversationId);
   }, [currentConversation, loadConversationHistory]);
 
-  // 创建新对话
-  const createNewConversation = useCallback(async () => {
+  // 关闭当前对话，回到空白的新对话界面
+  const closeConversation = useCallback(() => {
+    requestedConversationRef.current = null;
+    setCurrentConversation(null);
+    setMessageTree(createMessageTree());
+    setTotalMessages(0);
+    setHasMoreMessages(false);
+  }, []);
+
+  // 创建新对话，可选附带角色的系统提示词
+  const createNewConversation = useCallback(async (persona?: ConversationPersona) => {
     try {
-      const response = await apiService.createNewConversation();
+      const response = await apiService.createNewConversation(persona?.system_prompt);
+      requestedConversationRef.current = response.conversation_id;
       setCurrentConversation(response.conversation_id);
-      setMessages([]);
+      setMessageTree(createMessageTree());
+      setTotalMessages(0);
+      setHasMoreMessages(false);
       
-      // 刷新对话列表
-      await loadConversations();
+      // 记录对话使用的角色
+      if (persona) {
+        setPersonasByConversation(prev => {
+          const next = { ...prev, [response.conversation_id]: persona };
+          saveConversationPersonas(next);
+          return next;
+        });
+      }
+      
+      // 刷新对话列表，在归档视图中新建时切回未归档的列表
+      if (showArchived) {
+        setShowArchived(false);
+      } else {
+        await loadConversations();
+      }
       
       toast.success('创建新对话成功');
     } catch (error: any) {
       console.error('创建新对话失败:', error);
       toast.error('创建新对话失败');
     }
-  }, [loadConversations]);
+  }, [loadConversations, showArchived]);
 
   // 删除对话
   const deleteConversation = useCallback(async (conversationId: string) => {
@@ -75,43 +450,136 @@ export const useChat = (): UseChatReturn => {
       
       // 从列表中移除
       setConversations(prev => prev.filter(conv => conv.conversation_id !== conversationId));
+      setTotalConversations(prev => Math.max(0, prev - 1));
       
       // 如果删除的是当前对话，清空消息
       if (conversationId === currentConversation) {
-        setCurrentConversation(null);
-        setMessages([]);
+        closeConversation();
       }
       
+      // 清除该对话的生成参数
+      setSettingsByConversation(prev => {
+        if (!prev[conversationId]) return prev;
+        const next = { ...prev };
+        delete next[conversationId];
+        saveGenerationSettings(next);
+        return next;
+      });
+      
+      // 清除该对话的角色记录
+      setPersonasByConversation(prev => {
+        if (!prev[conversationId]) return prev;
+        const next = { ...prev };
+        delete next[conversationId];
+        saveConversationPersonas(next);
+        return next;
+      });
+      
       toast.success('对话已删除');
     } catch (error: any) {
       console.error('删除对话失败:', error);
       toast.error('删除对话失败');
     }
-  }, [currentConversation]);
+  }, [currentConversation, closeConversation]);
+
+  // 修改对话属性，先更新界面，失败时恢复
+  const updateConversation = useCallback(async (
+    conversationId: string,
+    updates: ConversationUpdate,
+    errorMessage: string
+  ) => {
+    const original = conversations.find(conv => conv.conversation_id === conversationId);
+    setConversations(prev => prev.map(conv =>
+      conv.conversation_id === conversationId ? { ...conv, ...updates } : conv
+    ));
+    
+    try {
+      await apiService.updateConversation(conversationId, updates);
+    } catch (error: any) {
+      console.error(`${errorMessage}:`, error);
+      toast.error(errorMessage);
+      if (original) {
+        setConversations(prev => prev.map(conv =>
+          conv.conversation_id === conversationId ? original : conv
+        ));
+      }
+    }
+  }, [conversations]);
+
+  // 重命名对话
+  const renameConversation = useCallback(async (conversationId: string, title: string) => {
+    const trimmed = title.trim();
+    if (!trimmed) return;
+    titledConversationsRef.current.add(conversationId);
+    await updateConversation(conversationId, { title: trimmed }, '重命名对话失败');
+  }, [updateConversation]);
+
+  // 置顶或取消置顶对话
+  const pinConversation = useCallback(async (conversationId: string, pinned: boolean) => {
+    await updateConversation(conversationId, { is_pinned: pinned }, pinned ? '置顶对话失败' : '取消置顶失败');
+  }, [updateConversation]);
+
+  // 归档或取消归档对话，完成后从当前列表中移除
+  const archiveConversation = useCallback(async (conversationId: string, archived: boolean) => {
+    try {
+      await apiService.updateConversation(conversationId, { is_archived: archived });
+      setConversations(prev => prev.filter(conv => conv.conversation_id !== conversationId));
+      setTotalConversations(prev => Math.max(0, prev - 1));
+      toast.success(archived ? '对话已归档' : '对话已取消归档');
+    } catch (error: any) {
+      console.error('归档对话失败:', error);
+      toast.error(archived ? '归档对话失败' : '取消归档失败');
+    }
+  }, []);
+
+  // 当前分支最后一条消息的ID，新消息接在其后
+  const lastMessageId = messages.length > 0 ? messages[messages.length - 1].id : null;
+  // 当前分支上有未发送的消息时，新消息也进入发件箱以保证顺序
+  const hasUnsentMessages = messages.some(msg => !!msg.send_status);
+
+  // 离线时将用户消息放入发件箱，网络恢复后自动发送
+  const queueOfflineMessage = useCallback(async (
+    userMessage: ChatMessage,
+    parentId: number | null,
+    request: ChatRequest
+  ) => {
+    setMessageTree(prev => addMessage(prev, { ...userMessage, send_status: 'pending' }, parentId));
+    await outboxService.enqueue(userMessage, request);
+  }, []);
 
   // 发送普通消息
-  const sendMessage = useCallback(async (message: string) => {
-    if (!message.trim()) return;
+  const sendMessage = useCallback(async (message: string, attachments?: Attachment[]) => {
+    if (!message.trim() && !attachments?.length) return;
+    
+    // 添加用户消息到界面
+    const userMessage: ChatMessage = {
+      id: Date.now(), // 临时ID
+      role: MessageRole.USER,
+      content: message.trim(),
+      conversation_id: currentConversation || undefined,
+      created_at: new Date().toISOString(),
+      attachments,
+    };
+    const request: ChatRequest = {
+      message: message.trim(),
+      conversation_id: currentConversation || undefined,
+      parent_message_id: lastMessageId,
+      attachment_ids: attachments?.map(attachment => attachment.id),
+      ...toRequestParams(generationSettings),
+    };
+    
+    if (!navigator.onLine || hasUnsentMessages) {
+      await queueOfflineMessage(userMessage, lastMessageId, request);
+      return;
+    }
     
     try {
       setIsLoading(true);
       
-      // 添加用户消息到界面
-      const userMessage: ChatMessage = {
-        id: Date.now(), // 临时ID
-        role: MessageRole.USER,
-        content: message.trim(),
-        conversation_id: currentConversation || undefined,
-        created_at: new Date().toISOString(),
-      };
-      
-      setMessages(prev => [...prev, userMessage]);
+      setMessageTree(prev => addMessage(prev, userMessage, lastMessageId));
       
       // 发送到后端
-      const response = await apiService.sendMessage({
-        message: message.trim(),
-        conversation_id: currentConversation || undefined,
-      });
+      const response = await apiService.sendMessage(request);
       
       // 添加AI回复
       const assistantMessage: ChatMessage = {
@@ -120,81 +588,212 @@ export const useChat = (): UseChatReturn => {
         content: response.message,
         conversation_id: response.conversation_id,
         created_at: new Date().toISOString(),
+        model_used: response.model_used,
+        tokens_used: response.tokens_used,
       };
       
-      // 更新消息列表，替换临时用户消息并添加AI回复
-      setMessages(prev => {
-        const newMessages = [...prev];
-        // 更新用户消息ID
-        newMessages[newMessages.length - 1] = {
-          ...userMessage,
+      // 替换临时用户消息ID并添加AI回复
+      setMessageTree(prev => {
+        const updated = updateMessage(prev, userMessage.id, msg => ({
+          ...msg,
           id: response.user_message_id,
           conversation_id: response.conversation_id,
-        };
-        // 添加AI回复
-        newMessages.push(assistantMessage);
-        return newMessages;
+        }));
+        return addMessage(updated, assistantMessage, response.user_message_id);
       });
       
       // 更新当前对话ID
       if (!currentConversation) {
+        requestedConversationRef.current = response.conversation_id;
         setCurrentConversation(response.conversation_id);
         // 刷新对话列表
         await loadConversations();
       }
-      
+    
     } catch (error: any) {
       console.error('发送消息失败:', error);
-      toast.error(error.message || '发送消息失败');
       
-      // 移除失败的用户消息
-      setMessages(prev => prev.slice(0, -1));
+      if (isRetryableSendError(error)) {
+        toast.error('发送失败，消息将稍后自动重试');
+        // 保留失败的用户消息，转入发件箱重试
+        outboxService.enqueue(userMessage, request, error.message);
+      } else {
+        // 请求本身被拒绝（如校验或权限错误），重试也不会成功
+        toast.error(error.message || '发送失败');
+        setMessageTree(prev => removeMessage(prev, userMessage.id));
+      }
     } finally {
       setIsLoading(false);
     }
-  }, [currentConversation, loadConversations]);
+  }, [currentConversation, lastMessageId, hasUnsentMessages, generationSettings, loadConversations, queueOfflineMessage]);
 
-  // 发送流式消息
-  const sendStreamMessage = useCallback(async (message: string) => {
-    if (!message.trim()) return;
+  // 重新加载服务器上的历史，用真实ID替换停止生成时留下的临时ID
+  // 加载失败时移除这些临时消息，避免之后以临时ID作为父消息发送或写入缓存
+  const resyncHistory = useCallback(async (conversationId: string | null, tempIds: number[]) => {
+    try {
+      if (!conversationId) {
+        throw new Error('对话尚未创建');
+      }
+      const [history, outboxItems] = await Promise.all([
+        apiService.getConversationHistory(conversationId, HISTORY_PAGE_SIZE),
+        outboxService.getItems(conversationId),
+      ]);
+      if (requestedConversationRef.current !== conversationId) return;
+      setMessageTree(mergeOutboxItems(buildMessageTree(history.messages), outboxItems));
+      setTotalMessages(history.total_messages);
+      setHasMoreMessages(hasOlderMessages(history, history.messages.length));
+    } catch (error) {
+      console.error('同步对话历史失败:', error);
+      // 先删除后代（AI回复），再删除用户消息
+      setMessageTree(prev => [...tempIds].reverse().reduce((tree, id) => removeMessage(tree, id), prev));
+    }
+  }, []);
+
+  // 在指定父消息之后流式生成回复
+  // regenerate为true时parentId是已有的用户消息，只生成新的AI回复版本
+  const streamReply = useCallback(async (
+    message: string,
+    parentId: number | null,
+    regenerate: boolean = false,
+    attachments?: Attachment[]
+  ) => {
+    // 添加用户消息到界面
+    const userMessage: ChatMessage | null = regenerate ? null : {
+      id: Date.now(), // 临时ID
+      role: MessageRole.USER,
+      content: message,
+      conversation_id: currentConversation || undefined,
+      created_at: new Date().toISOString(),
+      attachments,
+    };
+    const attachmentIds = regenerate ? undefined : attachments?.map(attachment => attachment.id);
+    
+    // 添加空的AI消息用于流式更新
+    const tempAssistantId = Date.now() + 1;
+    const assistantMessage: ChatMessage = {
+      id: tempAssistantId,
+      role: MessageRole.ASSISTANT,
+      content: '',
+      conversation_id: currentConversation || undefined,
+      created_at: new Date().toISOString(),
+    };
+    
+    // 用户消息转入发件箱时使用的非流式请求
+    const outboxRequest: ChatRequest = {
+      message,
+      conversation_id: currentConversation || undefined,
+      parent_message_id: parentId,
+      attachment_ids: attachmentIds,
+      ...toRequestParams(generationSettings),
+    };
+    
+    if (userMessage && (!navigator.onLine || hasUnsentMessages)) {
+      await queueOfflineMessage(userMessage, parentId, outboxRequest);
+      return;
+    }
+    
+    // 后端已确认的用户消息ID
+    let finalUserMessageId: number | undefined;
+    let finalConversationId = currentConversation;
+    // 停止生成时仍未收到后端ID的临时消息
+    const unresolvedIds: number[] = [];
+    
+    // 发送失败：移除AI消息，用户消息转入发件箱稍后重试
+    const handleSendFailure = (error: Error) => {
+      setMessageTree(prev => removeMessage(prev, tempAssistantId));
+      
+      if (!userMessage) {
+        toast.error('重新生成失败');
+      } else if (finalUserMessageId) {
+        // 用户消息已保存到后端，只是回复失败
+        setMessageTree(prev => updateMessage(prev, userMessage.id, msg => ({ ...msg, id: finalUserMessageId! })));
+        toast.error('发送消息失败');
+      } else if (isRetryableSendError(error)) {
+        toast.error('发送失败，消息将稍后自动重试');
+        outboxService.enqueue(userMessage, outboxRequest, error.message);
+      } else {
+        toast.error(error.message || '发送失败');
+        setMessageTree(prev => removeMessage(prev, userMessage.id));
+      }
+    };
     
     try {
       setIsLoading(true);
       
-      // 添加用户消息到界面
-      const userMessage: ChatMessage = {
-        id: Date.now(), // 临时ID
-        role: MessageRole.USER,
-        content: message.trim(),
-        conversation_id: currentConversation || undefined,
-        created_at: new Date().toISOString(),
-      };
-      
-      setMessages(prev => [...prev, userMessage]);
-      
-      // 添加空的AI消息用于流式更新
-      const tempAssistantId = Date.now() + 1;
-      const assistantMessage: ChatMessage = {
-        id: tempAssistantId,
-        role: MessageRole.ASSISTANT,
-        content: '',
-        conversation_id: currentConversation || undefined,
-        created_at: new Date().toISOString(),
-      };
-      
-      setMessages(prev => [...prev, assistantMessage]);
+      setMessageTree(prev => {
+        if (!userMessage) {
+          return addMessage(prev, assistantMessage, parentId);
+        }
+        return addMessage(addMessage(prev, userMessage, parentId), assistantMessage, userMessage.id);
+      });
       streamingMessageRef.current = tempAssistantId;
       
       let fullContent = '';
-      let finalConversationId = currentConversation;
-      let finalUserMessageId: number | undefined;
       let finalAssistantMessageId: number | undefined;
+      let modelUsed: string | undefined;
+      let tokensUsed: number | undefined;
+      
+      // 用最终的消息ID和对话ID替换临时ID
+      const finalizeMessages = (truncated: boolean) => {
+        if (truncated) {
+          if (userMessage && !finalUserMessageId) {
+            unresolvedIds.push(userMessage.id);
+          }
+          if (fullContent && !finalAssistantMessageId) {
+            unresolvedIds.push(tempAssistantId);
+          }
+        }
+        
+        setMessageTree(prev => {
+          let tree = prev;
+          
+          if (userMessage && finalUserMessageId) {
+            tree = updateMessage(tree, userMessage.id, msg => ({
+              ...msg,
+              id: finalUserMessageId!,
+              conversation_id: finalConversationId || undefined,
+            }));
+          }
+          
+          // 停止时若尚未收到任何内容，则不保留空的AI消息
+          if (truncated && !fullContent) {
+            return removeMessage(tree, tempAssistantId);
+          }
+          
+          return updateMessage(tree, tempAssistantId, msg => ({
+            ...msg,
+            id: finalAssistantMessageId || msg.id,
+            conversation_id: finalConversationId || undefined,
+            is_truncated: truncated || undefined,
+            model_used: modelUsed,
+            tokens_used: tokensUsed,
+          }));
+        });
+        
+        // 更新当前对话ID
+        if (!currentConversation && finalConversationId) {
+          requestedConversationRef.current = finalConversationId;
+          setCurrentConversation(finalConversationId);
+          // 刷新对话列表
+          loadConversations();
+        }
+        
+        streamingMessageRef.current = null;
+      };
+      
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      setIsStreaming(true);
       
       // 发送流式请求
       await apiService.sendStreamMessage(
         {
-          message: message.trim(),
+          message,
           conversation_id: currentConversation || undefined,
+          parent_message_id: parentId,
+          regenerate: regenerate || undefined,
+          attachment_ids: attachmentIds,
+          ...toRequestParams(generationSettings),
         },
         // onChunk
         (chunk: StreamChunk) => {
@@ -202,12 +801,8 @@ export const useChat = (): UseChatReturn => {
             fullContent += chunk.content;
             
             // 更新AI消息内容
-            setMessages(prev => 
-              prev.map(msg => 
-                msg.id === tempAssistantId 
-                  ? { ...msg, content: fullContent }
-                  : msg
-              )
+            setMessageTree(prev =>
+              updateMessage(prev, tempAssistantId, msg => ({ ...msg, content: fullContent }))
             );
           }
           
@@ -222,73 +817,151 @@ export const useChat = (): UseChatReturn => {
           if (chunk.assistant_message_id) {
             finalAssistantMessageId = chunk.assistant_message_id;
           }
+          
+          if (chunk.model_used) {
+            modelUsed = chunk.model_used;
+          }
+          
+          if (chunk.tokens_used !== undefined) {
+            tokensUsed = chunk.tokens_used;
+          }
         },
         // onError
         (error: Error) => {
-          console.error('流式消息失败:', error);
-          toast.error('发送消息失败');
+          // 用户主动停止生成，保留已生成的部分内容
+          if (abortController.signal.aborted) {
+            finalizeMessages(true);
+            return;
+          }
           
-          // 移除失败的消息
-          setMessages(prev => prev.filter(msg => 
-            msg.id !== tempAssistantId && msg.id !== userMessage.id
-          ));
+          console.error('流式消息失败:', error);
+          handleSendFailure(error);
         },
         // onComplete
         () => {
-          // 更新最终的消息ID和对话ID
-          setMessages(prev => 
-            prev.map(msg => {
-              if (msg.id === userMessage.id && finalUserMessageId) {
-                return {
-                  ...msg,
-                  id: finalUserMessageId,
-                  conversation_id: finalConversationId,
-                } as ChatMessage;
-              }
-              if (msg.id === tempAssistantId && finalAssistantMessageId) {
-                return {
-                  ...msg,
-                  id: finalAssistantMessageId,
-                  conversation_id: finalConversationId,
-                } as ChatMessage;
-              }
-              return msg;
-            })
-          );
-          
-          // 更新当前对话ID
-          if (!currentConversation && finalConversationId) {
-            setCurrentConversation(finalConversationId);
-            // 刷新对话列表
-            loadConversations();
-          }
-          
-          streamingMessageRef.current = null;
-        }
+          finalizeMessages(false);
+        },
+        abortController.signal
       );
       
+      // 停止生成时后端可能尚未返回消息ID，加载中状态保持到同步完成
+      if (unresolvedIds.length > 0) {
+        await resyncHistory(finalConversationId, unresolvedIds);
+      }
+    
     } catch (error: any) {
       console.error('发送流式消息失败:', error);
-      toast.error(error.message || '发送消息失败');
-      
-      // 移除失败的消息
-      setMessages(prev => prev.slice(0, -2));
+      handleSendFailure(error);
     } finally {
+      abortControllerRef.current = null;
+      setIsStreaming(false);
       setIsLoading(false);
     }
-  }, [currentConversation, loadConversations]);
+  }, [currentConversation, hasUnsentMessages, generationSettings, loadConversations, queueOfflineMessage, resyncHistory]);
+
+  // 发送流式消息
+  const sendStreamMessage = useCallback(async (message: string, attachments?: Attachment[]) => {
+    if (!message.trim() && !attachments?.length) return;
+    await streamReply(message.trim(), lastMessageId, false, attachments);
+  }, [lastMessageId, streamReply]);
+
+  // 重新生成AI回复，作为该回复的兄弟版本
+  const regenerateMessage = useCallback(async (messageId: number) => {
+    const target = messageTree.messages[messageId];
+    if (!target || target.role !== MessageRole.ASSISTANT || isLoading) return;
+    
+    const parentId = target.parent_id ?? null;
+    const parent = parentId !== null ? messageTree.messages[parentId] : undefined;
+    if (!parent) return;
+    
+    await streamReply(parent.content, parentId, true);
+  }, [messageTree, isLoading, streamReply]);
+
+  // 编辑用户消息并重新发送，作为该消息的兄弟版本
+  const editMessage = useCallback(async (messageId: number, content: string) => {
+    const target = messageTree.messages[messageId];
+    if (!target || target.role !== MessageRole.USER || isLoading || !content.trim()) return;
+    
+    // 编辑后的新版本保留原消息的附件
+    await streamReply(content.trim(), target.parent_id ?? null, false, target.attachments);
+  }, [messageTree, isLoading, streamReply]);
+
+  // 切换消息的兄弟版本
+  const switchBranch = useCallback((messageId: number, offset: number) => {
+    setMessageTree(prev => switchTreeBranch(prev, messageId, offset));
+  }, []);
+
+  // 获取消息的版本信息
+  const getBranchInfo = useCallback((messageId: number) => {
+    return getTreeBranchInfo(messageTree, messageId);
+  }, [messageTree]);
+
+  // 更新当前对话的生成参数并持久化
+  const updateGenerationSettings = useCallback((settings: Partial<GenerationSettings>) => {
+    const key = currentConversation || DEFAULT_SETTINGS_KEY;
+    setSettingsByConversation(prev => {
+      const next = {
+        ...prev,
+        [key]: { ...resolveGenerationSettings(prev, currentConversation), ...settings },
+      };
+      saveGenerationSettings(next);
+      return next;
+    });
+  }, [currentConversation]);
+
+  // 手动重试发送失败的消息
+  const retryMessage = useCallback(async (messageId: number) => {
+    await outboxService.retry(messageId);
+  }, []);
+
+  // 丢弃未发送的消息
+  const discardMessage = useCallback(async (messageId: number) => {
+    await outboxService.discard(messageId);
+    setMessageTree(prev => removeMessage(prev, messageId));
+  }, []);
+
+  // 停止生成
+  const stopGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
 
   return {
     messages,
-    conversations,
+    conversations: sortedConversations,
     currentConversation,
     isLoading,
+    hasMoreMessages,
+    isLoadingOlderMessages,
+    loadOlderMessages,
+    totalConversations,
+    hasMoreConversations,
+    isLoadingMoreConversations,
+    loadMoreConversations,
+    refreshConversations: loadConversations,
+    showArchived,
+    setShowArchived,
+    renameConversation,
+    pinConversation,
+    archiveConversation,
+    isStreaming,
     sendMessage,
     sendStreamMessage,
+    stopGeneration,
+    regenerateMessage,
+    editMessage,
+    switchBranch,
+    getBranchInfo,
+    retryMessage,
+    discardMessage,
+    generationSettings,
+    updateGenerationSettings,
+    activePersona,
     selectConversation,
+    closeConversation,
     createNewConversation,
     deleteConversation,
     loadConversationHistory,
+    revealMessage,
   };
 };
 
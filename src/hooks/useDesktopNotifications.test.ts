@@ -0,0 +1,61 @@
+import { renderHook, waitFor } from '@testing-library/react';
+import { pushService } from '../services/pushService';
+import { NotificationType } from '../services/notificationService';
+import { useAuth } from './useAuth';
+import { useDesktopNotifications } from './useDesktopNotifications';
+
+jest.mock('../services/api', () => ({
+  apiService: {},
+}));
+
+jest.mock('../services/pushService', () => ({
+  pushService: {
+    getPermission: jest.fn(),
+    isPushSupported: jest.fn(),
+    requestPermission: jest.fn(),
+    subscribe: jest.fn(),
+    unsubscribe: jest.fn(),
+    showNotification: jest.fn(),
+  },
+}));
+
+jest.mock('./useAuth', () => ({
+  useAuth: jest.fn(),
+}));
+
+const mockedUseAuth = useAuth as jest.Mock;
+const mockedPushService = pushService as jest.Mocked<typeof pushService>;
+
+describe('useDesktopNotifications', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    mockedPushService.getPermission.mockReturnValue('granted');
+    mockedPushService.isPushSupported.mockReturnValue(true);
+    mockedPushService.subscribe.mockResolvedValue(true);
+    mockedPushService.unsubscribe.mockResolvedValue();
+  });
+
+  it('subscribes with the signed-in user\'s stored preferences without unsubscribing first', async () => {
+    localStorage.setItem(
+      'notification_preferences_user-1',
+      JSON.stringify({ [NotificationType.MESSAGE_RECEIVED]: true })
+    );
+    mockedUseAuth.mockReturnValue({ isAuthenticated: false, user: null });
+
+    const { result, rerender } = renderHook(() => useDesktopNotifications());
+    expect(result.current.preferences).toEqual({});
+
+    mockedUseAuth.mockReturnValue({
+      isAuthenticated: true,
+      user: { id: 'user-1', is_anonymous: false },
+    });
+    rerender();
+
+    expect(result.current.preferences).toEqual({ [NotificationType.MESSAGE_RECEIVED]: true });
+    await waitFor(() => {
+      expect(mockedPushService.subscribe).toHaveBeenCalledWith([NotificationType.MESSAGE_RECEIVED]);
+    });
+    expect(mockedPushService.subscribe).toHaveBeenCalledTimes(1);
+    expect(mockedPushService.unsubscribe).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import toast from 'react-hot-toast';
+import { notificationService, NotificationType } from '../services/notificationService';
+import { pushService } from '../services/pushService';
+import {
+  NotificationPreferences,
+  loadNotificationPreferences,
+  saveNotificationPreferences,
+  getEnabledNotificationTypes
+} from '../utils/notificationPreferences';
+import { useAuth } from './useAuth';
+
+export interface UseDesktopNotificationsReturn {
+  preferences: NotificationPreferences;
+  permission: NotificationPermission | 'unsupported';
+  isPushSupported: boolean;
+  setTypeEnabled: (type: NotificationType, enabled: boolean) => Promise<void>;
+}
+
+/**
+ * 桌面通知：按类型开启，页面隐藏时显示，并同步Web Push订阅
+ */
+export const useDesktopNotifications = (): UseDesktopNotificationsReturn => {
+  const { isAuthenticated, user } = useAuth();
+  const userId = user?.id ?? null;
+  // 偏好随账户同步读取，避免切换账户时先按上一个账户的偏好同步推送订阅
+  const storedPreferences = useMemo(() => loadNotificationPreferences(userId), [userId]);
+  // 本次修改后的偏好，只对修改时的账户有效
+  const [updatedPreferences, setUpdatedPreferences] = useState<{
+    userId: string | null;
+    preferences: NotificationPreferences;
+  } | null>(null);
+  const preferences = updatedPreferences?.userId === userId
+    ? updatedPreferences.preferences
+    : storedPreferences;
+  const [permission, setPermission] = useState(pushService.getPermission());
+
+  // 使用ref在通知回调中读取最新偏好
+  const preferencesRef = useRef(preferences);
+
+  useEffect(() => {
+    preferencesRef.current = preferences;
+  }, [preferences]);
+
+  // 开启或关闭某类通知，开启时请求通知权限
+  const setTypeEnabled = useCallback(async (type: NotificationType, enabled: boolean) => {
+    if (enabled) {
+      const result = await pushService.requestPermission();
+      setPermission(result);
+      if (result !== 'granted') {
+        toast.error(result === 'unsupported' ? '当前浏览器不支持桌面通知' : '浏览器未授予通知权限');
+        return;
+      }
+    }
+    const next = { ...preferencesRef.current, [type]: enabled };
+    setUpdatedPreferences({ userId, preferences: next });
+    if (userId) {
+      saveNotificationPreferences(userId, next);
+    }
+  }, [userId]);
+
+  // 同步Web Push订阅，没有开启的类型时取消订阅
+  useEffect(() => {
+    if (!isAuthenticated || permission !== 'granted' || !pushService.isPushSupported()) return;
+
+    const enabledTypes = getEnabledNotificationTypes(preferences);
+    const sync = enabledTypes.length > 0
+      ? pushService.subscribe(enabledTypes)
+      : pushService.unsubscribe();
+    sync.catch(error => {
+      console.error('同步推送订阅失败:', error);
+    });
+  }, [isAuthenticated, permission, preferences]);
+
+  // 页面隐藏时为开启的类型显示桌面通知，与服务器推送的同一通知按tag合并
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    return notificationService.subscribeAll(event => {
+      if (document.visibilityState !== 'hidden' || !preferencesRef.current[event.event_type]) return;
+      pushService.showNotification(event).catch(error => {
+        console.error('显示桌面通知失败:', error);
+      });
+    });
+  }, [isAuthenticated]);
+
+  return {
+    preferences,
+    permission,
+    isPushSupported: pushService.isPushSupported(),
+    setTypeEnabled,
+  };
+};
+
+export default useDesktopNotifications;
\ No newline at end of file
@@ -1,10 +1,24 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { 
   notificationService, 
   NotificationEvent, 
   NotificationType, 
-  NotificationListener 
+  NotificationListener,
+  NotificationTransportName,
+  NotificationTransportPreference
 } from '../services/notificationService';
+import { apiService } from '../services/api';
+import {
+  NotificationState,
+  EMPTY_NOTIFICATION_STATE,
+  MAX_STORED_NOTIFICATIONS,
+  getNotificationStateKey,
+  loadNotificationState,
+  saveNotificationState,
+  mergeNotifications,
+  appendIds,
+  removeIds
+} from '../utils/notificationState';
 import { useAuth } from './useAuth';
 
 export interface UseNotificationsReturn {
@@ -14,8 +28,10 @@ export interface UseNotificationsReturn {
   isConnected: boolean;
   
   // 操作方法
+  isRead: (eventId: string) => boolean;
   markAsRead: (eventId: string) => void;
   markAllAsRead: () => void;
+  dismiss: (eventId: string) => void;
   clearNotifications: () => void;
   
   // 订阅方法
@@ -28,47 +44,119 @@ export interface UseNotificationsReturn {
   
   // 状态信息
   serviceStatus: {
+    isRunning: boolean;
     isPolling: boolean;
     isSSEConnected: boolean;
     isSSESupported: boolean;
+    transport: NotificationTransportName | null;
+    transportPreference: NotificationTransportPreference;
+    reconnectAttempts: number;
     pollingInterval: number;
     lastEventId: string | null;
   };
 }
 
+// 带所属用户的通知状态，切换用户时据此重新加载
+interface UserNotificationState extends NotificationState {
+  userId: string | null;
+}
+
+const loadUserState = (userId: string | null): UserNotificationState => ({
+  ...(userId ? loadNotificationState(userId) : EMPTY_NOTIFICATION_STATE),
+  userId,
+});
+
 export const useNotifications = (): UseNotificationsReturn => {
-  const { isAuthenticated } = useAuth();
-  const [notifications, setNotifications] = useState<NotificationEvent[]>([]);
-  const [readEventIds, setReadEventIds] = useState<Set<string>>(new Set());
+  const { isAuthenticated, user } = useAuth();
+  const userId = isAuthenticated && user ? user.id : null;
+  const [state, setState] = useState<UserNotificationState>(() => loadUserState(userId));
   const [isConnected, setIsConnected] = useState(false);
   const [serviceStatus, setServiceStatus] = useState(notificationService.getStatus());
   
   // 使用ref来避免useEffect依赖问题
-  const notificationsRef = useRef(notifications);
-  const readEventIdsRef = useRef(readEventIds);
+  const stateRef = useRef(state);
   
   // 更新refs
   useEffect(() => {
-    notificationsRef.current = notifications;
-  }, [notifications]);
-  
+    stateRef.current = state;
+  }, [state]);
+
+  // 切换用户时加载对应的通知状态
   useEffect(() => {
-    readEventIdsRef.current = readEventIds;
-  }, [readEventIds]);
+    setState(prev => (prev.userId === userId ? prev : loadUserState(userId)));
+  }, [userId]);
+
+  // 持久化通知状态，刷新页面后保持已读和删除状态
+  useEffect(() => {
+    if (state.userId) {
+      saveNotificationState(state.userId, state);
+    }
+  }, [state]);
+
+  // 其他标签页修改通知状态时同步
+  useEffect(() => {
+    if (!userId) return;
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === getNotificationStateKey(userId)) {
+        setState(loadUserState(userId));
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [userId]);
+
+  // 服务器确认后移除对应的待同步记录
+  const settlePending = useCallback((
+    ownerId: string,
+    key: 'pendingReadIds' | 'pendingDismissedIds',
+    eventIds: string[]
+  ) => {
+    setState(prev => (prev.userId === ownerId ? { ...prev, [key]: removeIds(prev[key], eventIds) } : prev));
+  }, []);
+
+  // 提交已读状态，失败时保留待同步记录，下次重试
+  const submitRead = useCallback(async (ownerId: string, eventIds: string[], all: boolean = false) => {
+    try {
+      if (all) {
+        await apiService.markAllNotificationsRead();
+      } else {
+        await apiService.markNotificationsRead(eventIds);
+      }
+      settlePending(ownerId, 'pendingReadIds', eventIds);
+    } catch (error) {
+      console.error('同步通知已读状态失败:', error);
+    }
+  }, [settlePending]);
+
+  // 提交删除操作，失败时保留待同步记录，下次重试
+  const submitDismissed = useCallback(async (ownerId: string, eventIds: string[]) => {
+    try {
+      await apiService.dismissNotifications(eventIds);
+      settlePending(ownerId, 'pendingDismissedIds', eventIds);
+    } catch (error) {
+      console.error('同步通知删除状态失败:', error);
+    }
+  }, [settlePending]);
+
+  // 重试尚未同步到服务器的操作
+  const syncPending = useCallback(() => {
+    const { userId: ownerId, pendingReadIds, pendingDismissedIds } = stateRef.current;
+    if (!ownerId) return;
+
+    if (pendingReadIds.length > 0) {
+      submitRead(ownerId, pendingReadIds);
+    }
+    if (pendingDismissedIds.length > 0) {
+      submitDismissed(ownerId, pendingDismissedIds);
+    }
+  }, [submitRead, submitDismissed]);
 
   // 处理新通知事件
   const handleNotificationEvent = useCallback((event: NotificationEvent) => {
-    setNotifications(prev => {
-      // 检查是否已存在该事件（避免重复）
-      const exists = prev.some(n => n.event_id === event.event_id);
-      if (exists) {
-        return prev;
-      }
-      
-      // 添加新事件并保持最近100个
-      const updated = [...prev, event].slice(-100);
-      return updated;
-    });
+    // 按event_id合并，同时保持最近的通知
+    setState(prev => (prev.userId ? { ...prev, ...mergeNotifications(prev, [event]) } : prev));
     
     // 更新连接状态
     setIsConnected(true);
@@ -79,22 +167,56 @@ export const useNotifications = (): UseNotificationsReturn => {
     setServiceStatus(notificationService.getStatus());
   }, []);
 
+  // 本地标记为已读并提交到服务器
+  const markIdsAsRead = useCallback((eventIds: string[], all: boolean = false) => {
+    const { userId: ownerId, readEventIds } = stateRef.current;
+    const readSet = new Set(readEventIds);
+    const unreadIds = eventIds.filter(id => !readSet.has(id));
+    if (!ownerId || unreadIds.length === 0) return;
+
+    setState(prev => ({
+      ...prev,
+      readEventIds: appendIds(prev.readEventIds, unreadIds),
+      pendingReadIds: appendIds(prev.pendingReadIds, unreadIds),
+    }));
+    submitRead(ownerId, unreadIds, all);
+  }, [submitRead]);
+
   // 标记单个通知为已读
   const markAsRead = useCallback((eventId: string) => {
-    setReadEventIds(prev => new Set(Array.from(prev).concat(eventId)));
-  }, []);
+    markIdsAsRead([eventId]);
+  }, [markIdsAsRead]);
 
   // 标记所有通知为已读
   const markAllAsRead = useCallback(() => {
-    const allEventIds = notificationsRef.current.map(n => n.event_id);
-    setReadEventIds(new Set(allEventIds));
-  }, []);
+    const allEventIds = stateRef.current.notifications.map(n => n.event_id);
+    markIdsAsRead(allEventIds, true);
+  }, [markIdsAsRead]);
+
+  // 删除通知（同步到服务器，其他设备上也不再显示）
+  const dismissIds = useCallback((eventIds: string[]) => {
+    const ownerId = stateRef.current.userId;
+    if (!ownerId || eventIds.length === 0) return;
+
+    const removed = new Set(eventIds);
+    setState(prev => ({
+      ...prev,
+      notifications: prev.notifications.filter(n => !removed.has(n.event_id)),
+      dismissedEventIds: appendIds(prev.dismissedEventIds, eventIds),
+      pendingDismissedIds: appendIds(prev.pendingDismissedIds, eventIds),
+    }));
+    submitDismissed(ownerId, eventIds);
+  }, [submitDismissed]);
+
+  // 删除单个通知
+  const dismiss = useCallback((eventId: string) => {
+    dismissIds([eventId]);
+  }, [dismissIds]);
 
   // 清除所有通知
   const clearNotifications = useCallback(() => {
-    setNotifications([]);
-    setReadEventIds(new Set());
-  }, []);
+    dismissIds(stateRef.current.notifications.map(n => n.event_id));
+  }, [dismissIds]);
 
   // 订阅特定类型通知
   const subscribe = useCallback((eventType: NotificationType, listener: NotificationListener) => {
@@ -120,14 +242,41 @@ export const useNotifications = (): UseNotificationsReturn => {
   }, [updateServiceStatus]);
 
   // 计算未读数量
-  const unreadCount = notifications.filter(n => !readEventIds.has(n.event_id)).length;
+  const readEventIdSet = useMemo(() => new Set(state.readEventIds), [state.readEventIds]);
+  const unreadCount = state.notifications.filter(n => !readEventIdSet.has(n.event_id)).length;
+
+  // 判断通知是否已读
+  const isRead = useCallback((eventId: string) => readEventIdSet.has(eventId), [readEventIdSet]);
+
+  // 从服务器加载通知及其已读状态，并提交离线时的操作
+  // 依赖已加载状态的所属用户，确保不会以新用户身份提交旧用户的操作
+  const ownerId = state.userId;
+  useEffect(() => {
+    if (!ownerId) return;
+
+    let cancelled = false;
+    notificationService.fetchRecentNotifications(MAX_STORED_NOTIFICATIONS)
+      .then(response => {
+        if (cancelled) return;
+        setState(prev => (prev.userId === ownerId ? { ...prev, ...mergeNotifications(prev, response.events) } : prev));
+      })
+      .catch(error => {
+        console.error('加载通知失败:', error);
+      });
+    syncPending();
+
+    window.addEventListener('online', syncPending);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('online', syncPending);
+    };
+  }, [ownerId, syncPending]);
 
   // 初始化和清理
   useEffect(() => {
     if (!isAuthenticated) {
-      // 用户未认证时停止服务并清除通知
+      // 用户未认证时停止服务（通知状态随用户切换，不删除服务器上的通知）
       stopService();
-      clearNotifications();
       return;
     }
 
@@ -145,7 +294,7 @@ export const useNotifications = (): UseNotificationsReturn => {
       unsubscribe();
       clearInterval(statusInterval);
     };
-  }, [isAuthenticated, handleNotificationEvent, startService, stopService, clearNotifications, updateServiceStatus]);
+  }, [isAuthenticated, handleNotificationEvent, startService, stopService, updateServiceStatus]);
 
   // 组件卸载时停止服务
   useEffect(() => {
@@ -155,11 +304,13 @@ export const useNotifications = (): UseNotificationsReturn => {
   }, []);
 
   return {
-    notifications,
+    notifications: state.notifications,
     unreadCount,
     isConnected,
+    isRead,
     markAsRead,
     markAllAsRead,
+    dismiss,
     clearNotifications,
     subscribe,
     subscribeAll,
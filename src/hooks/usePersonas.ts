@@ -0,0 +1,71 @@
+import { useState, useCallback } from 'react';
+import { Persona, UsePersonasReturn } from '../types';
+import { loadPersonas, savePersonas, parsePersonaImport } from '../utils/personas';
+import { v4 as uuidv4 } from 'uuid';
+
+export const usePersonas = (): UsePersonasReturn => {
+  const [personas, setPersonas] = useState<Persona[]>(loadPersonas);
+
+  // 更新并持久化角色库
+  const persist = useCallback((updater: (prev: Persona[]) => Persona[]) => {
+    setPersonas(prev => {
+      const next = updater(prev);
+      savePersonas(next);
+      return next;
+    });
+  }, []);
+
+  // 创建角色
+  const createPersona = useCallback((name: string, systemPrompt: string) => {
+    const now = new Date().toISOString();
+    const persona: Persona = {
+      id: uuidv4(),
+      name: name.trim(),
+      system_prompt: systemPrompt.trim(),
+      created_at: now,
+      updated_at: now,
+    };
+    persist(prev => [...prev, persona]);
+    return persona;
+  }, [persist]);
+
+  // 编辑角色
+  const updatePersona = useCallback((id: string, updates: Partial<Pick<Persona, 'name' | 'system_prompt'>>) => {
+    persist(prev => prev.map(persona =>
+      persona.id === id
+        ? { ...persona, ...updates, updated_at: new Date().toISOString() }
+        : persona
+    ));
+  }, [persist]);
+
+  // 删除角色
+  const deletePersona = useCallback((id: string) => {
+    persist(prev => prev.filter(persona => persona.id !== id));
+  }, [persist]);
+
+  // 从JSON文件导入角色，返回导入数量
+  const importPersonas = useCallback(async (file: File) => {
+    const imported = parsePersonaImport(await file.text());
+    const now = new Date().toISOString();
+    persist(prev => [
+      ...prev,
+      ...imported.map(item => ({
+        id: uuidv4(),
+        ...item,
+        created_at: now,
+        updated_at: now,
+      })),
+    ]);
+    return imported.length;
+  }, [persist]);
+
+  return {
+    personas,
+    createPersona,
+    updatePersona,
+    deletePersona,
+    importPersonas,
+  };
+};
+
+export default usePersonas;
\ No newline at end of file
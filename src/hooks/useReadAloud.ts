@@ -0,0 +1,76 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ChatMessage, MessageRole, UseReadAloudReturn } from '../types';
+import { speechService } from '../services/speechService';
+
+// 朗读AI回复，回复仍在生成时跟随新内容继续朗读
+export const useReadAloud = (messages: ChatMessage[], isStreaming: boolean): UseReadAloudReturn => {
+  const [readingMessageId, setReadingMessageId] = useState<number | null>(null);
+  // 正在朗读的消息在列表中的位置，用于流式回复完成后临时ID被替换时继续跟随
+  const readingIndexRef = useRef<number>(-1);
+  // 上次更新时回复是否仍在生成
+  const wasGeneratingRef = useRef(false);
+  const isSupported = speechService.isSupported();
+
+  const stopReadAloud = useCallback(() => {
+    speechService.stop();
+    setReadingMessageId(null);
+  }, []);
+
+  const toggleReadAloud = useCallback((messageId: number) => {
+    if (readingMessageId === messageId) {
+      stopReadAloud();
+      return;
+    }
+
+    const index = messages.findIndex(msg => msg.id === messageId);
+    const message = messages[index];
+    if (!message || message.role !== MessageRole.ASSISTANT) return;
+
+    readingIndexRef.current = index;
+    const isGenerating = isStreaming && index === messages.length - 1;
+    wasGeneratingRef.current = isGenerating;
+    speechService.start(message.content, !isGenerating);
+    setReadingMessageId(messageId);
+  }, [messages, isStreaming, readingMessageId, stopReadAloud]);
+
+  // 朗读中的回复内容更新时追加朗读
+  useEffect(() => {
+    if (readingMessageId === null) return;
+
+    const index = messages.findIndex(msg => msg.id === readingMessageId);
+    if (index === -1) {
+      // 临时ID已替换为服务器ID，继续朗读同一位置的回复
+      const replaced = messages[readingIndexRef.current];
+      if (wasGeneratingRef.current && replaced && replaced.role === MessageRole.ASSISTANT) {
+        setReadingMessageId(replaced.id);
+      } else {
+        stopReadAloud();
+      }
+      return;
+    }
+
+    readingIndexRef.current = index;
+    const isGenerating = isStreaming && index === messages.length - 1;
+    wasGeneratingRef.current = isGenerating;
+    speechService.update(messages[index].content, !isGenerating);
+  }, [messages, isStreaming, readingMessageId, stopReadAloud]);
+
+  // 读完或被停止时清除朗读状态
+  useEffect(() => {
+    return speechService.onEnd(() => setReadingMessageId(null));
+  }, []);
+
+  // 卸载时停止朗读
+  useEffect(() => {
+    return () => speechService.stop();
+  }, []);
+
+  return {
+    readingMessageId,
+    isSupported,
+    toggleReadAloud,
+    stopReadAloud,
+  };
+};
+
+export default useReadAloud;
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { MessageSearchResult, SearchSource, UseSearchReturn } from '../types';
+import { apiService } from '../services/api';
+import { groupSearchResults } from '../utils/search';
+import toast from 'react-hot-toast';
+
+// 输入停止后延迟搜索的时间
+const SEARCH_DEBOUNCE_MS = 300;
+
+export const useSearch = (): UseSearchReturn => {
+  const [query, setQuery] = useState<string>('');
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState<boolean>(false);
+  const [source, setSource] = useState<SearchSource | null>(null);
+
+  // 输入变化后防抖搜索，忽略过期的搜索结果
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      setSource(null);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const response = await apiService.searchMessages(trimmed);
+        if (cancelled) return;
+        setResults(response.results);
+        setSource(response.source);
+      } catch (error: any) {
+        if (cancelled) return;
+        console.error('搜索消息失败:', error);
+        toast.error('搜索失败');
+        setResults([]);
+      } finally {
+        if (!cancelled) {
+          setIsSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  // 按对话分组的结果
+  const groups = useMemo(() => groupSearchResults(results), [results]);
+
+  // 清空搜索
+  const clearSearch = useCallback(() => {
+    setQuery('');
+  }, []);
+
+  return {
+    query,
+    setQuery,
+    results,
+    groups,
+    isSearching,
+    source,
+    clearSearch,
+  };
+};
+
+export default useSearch;
\ No newline at end of file
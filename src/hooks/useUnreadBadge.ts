@@ -0,0 +1,97 @@
+import { useState, useEffect, useRef } from 'react';
+
+// favicon绘制尺寸
+const FAVICON_SIZE = 32;
+
+// 标题中的未读数前缀，例如 "(3) "
+const TITLE_BADGE_PATTERN = /^\(\d+\+?\) /;
+
+const getFaviconLink = (): HTMLLinkElement => {
+  let link = document.querySelector<HTMLLinkElement>('link[rel~="icon"]');
+  if (!link) {
+    link = document.createElement('link');
+    link.rel = 'icon';
+    document.head.appendChild(link);
+  }
+  return link;
+};
+
+// 在原图标右上角绘制未读数徽章，返回data URL
+const drawBadgeIcon = (baseImage: HTMLImageElement | null, count: number): string | null => {
+  const canvas = document.createElement('canvas');
+  canvas.width = FAVICON_SIZE;
+  canvas.height = FAVICON_SIZE;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  if (baseImage) {
+    context.drawImage(baseImage, 0, 0, FAVICON_SIZE, FAVICON_SIZE);
+  }
+
+  const radius = baseImage ? 10 : FAVICON_SIZE / 2;
+  const center = FAVICON_SIZE - radius;
+  context.fillStyle = '#ef4444';
+  context.beginPath();
+  context.arc(center, radius, radius, 0, 2 * Math.PI);
+  context.fill();
+
+  context.fillStyle = '#ffffff';
+  context.font = `bold ${baseImage ? 13 : 20}px sans-serif`;
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.fillText(count > 9 ? '9+' : String(count), center, radius + 1);
+
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * 在页面标题和favicon上显示未读数量
+ */
+export const useUnreadBadge = (unreadCount: number): void => {
+  const originalHrefRef = useRef<string | null>(null);
+  const [baseImage, setBaseImage] = useState<HTMLImageElement | null>(null);
+
+  // 记录原始favicon，卸载时恢复标题和图标
+  useEffect(() => {
+    const link = getFaviconLink();
+    const originalHref = link.getAttribute('href');
+    originalHrefRef.current = originalHref;
+
+    let cancelled = false;
+    if (originalHref) {
+      const image = new Image();
+      image.onload = () => {
+        if (!cancelled) setBaseImage(image);
+      };
+      image.src = link.href;
+    }
+
+    return () => {
+      cancelled = true;
+      document.title = document.title.replace(TITLE_BADGE_PATTERN, '');
+      if (originalHref) {
+        link.setAttribute('href', originalHref);
+      } else {
+        link.removeAttribute('href');
+      }
+    };
+  }, []);
+
+  // 未读数变化时更新标题和图标
+  useEffect(() => {
+    const baseTitle = document.title.replace(TITLE_BADGE_PATTERN, '');
+    document.title = unreadCount > 0
+      ? `(${unreadCount > 99 ? '99+' : unreadCount}) ${baseTitle}`
+      : baseTitle;
+
+    const link = getFaviconLink();
+    const badgeIcon = unreadCount > 0 ? drawBadgeIcon(baseImage, unreadCount) : null;
+    if (badgeIcon) {
+      link.setAttribute('href', badgeIcon);
+    } else if (originalHrefRef.current) {
+      link.setAttribute('href', originalHrefRef.current);
+    }
+  }, [unreadCount, baseImage]);
+};
+
+export default useUnreadBadge;
\ No newline at end of file
@@ -0,0 +1,170 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { UseVoiceInputReturn, VoiceInputProvider } from '../types';
+import { apiService } from '../services/api';
+import toast from 'react-hot-toast';
+
+// 浏览器语音识别接口（TypeScript的DOM类型中未包含）
+interface BrowserSpeechRecognition {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+  onresult: ((event: any) => void) | null;
+  onerror: ((event: any) => void) | null;
+  onend: (() => void) | null;
+}
+
+type SpeechRecognitionConstructor = new () => BrowserSpeechRecognition;
+
+// Chrome和Safari只提供带webkit前缀的版本
+type SpeechRecognitionWindow = Window & {
+  SpeechRecognition?: SpeechRecognitionConstructor;
+  webkitSpeechRecognition?: SpeechRecognitionConstructor;
+};
+
+const getRecognitionConstructor = (): SpeechRecognitionConstructor | undefined => {
+  const speechWindow = window as SpeechRecognitionWindow;
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition;
+};
+
+// 选择识别方式：可通过环境变量指定使用服务器转写，浏览器不支持识别时也使用服务器转写
+const getProvider = (): VoiceInputProvider | null => {
+  const canRecord = typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+  if (process.env.REACT_APP_VOICE_INPUT_PROVIDER === 'server') {
+    return canRecord ? 'server' : null;
+  }
+  if (getRecognitionConstructor()) return 'browser';
+  return canRecord ? 'server' : null;
+};
+
+// 语音输入：onTranscript收到本次录音的完整识别文本，isFinal为false时是临时结果
+export const useVoiceInput = (
+  onTranscript: (text: string, isFinal: boolean) => void,
+  lang: string = 'zh-CN'
+): UseVoiceInputReturn => {
+  const [provider] = useState<VoiceInputProvider | null>(getProvider);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const onTranscriptRef = useRef(onTranscript);
+  onTranscriptRef.current = onTranscript;
+  const recognitionRef = useRef<BrowserSpeechRecognition | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+
+  // 使用浏览器语音识别，边说边显示结果
+  const startBrowserRecognition = useCallback(() => {
+    const Recognition = getRecognitionConstructor()!;
+    const recognition = new Recognition();
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.lang = lang;
+
+    recognition.onresult = (event: any) => {
+      let finalText = '';
+      let interimText = '';
+      for (let i = 0; i < event.results.length; i++) {
+        const result = event.results[i];
+        if (result.isFinal) {
+          finalText += result[0].transcript;
+        } else {
+          interimText += result[0].transcript;
+        }
+      }
+      onTranscriptRef.current(finalText + interimText, !interimText);
+    };
+    recognition.onerror = (event: any) => {
+      if (event.error === 'aborted' || event.error === 'no-speech') return;
+      console.error('语音识别失败:', event.error);
+      toast.error(event.error === 'not-allowed' ? '请允许使用麦克风' : '语音识别失败');
+    };
+    recognition.onend = () => {
+      recognitionRef.current = null;
+      setIsRecording(false);
+    };
+
+    recognitionRef.current = recognition;
+    recognition.start();
+    setIsRecording(true);
+  }, [lang]);
+
+  // 录音后上传到服务器转写
+  const startServerRecording = useCallback(async () => {
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (error) {
+      console.error('获取麦克风失败:', error);
+      toast.error('请允许使用麦克风');
+      return;
+    }
+
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = async () => {
+      stream.getTracks().forEach(track => track.stop());
+      recorderRef.current = null;
+      setIsRecording(false);
+      if (chunks.length === 0) return;
+
+      try {
+        setIsTranscribing(true);
+        const text = await apiService.transcribeAudio(new Blob(chunks, { type: recorder.mimeType }), lang);
+        if (text) {
+          onTranscriptRef.current(text, true);
+        }
+      } catch (error: any) {
+        console.error('语音转写失败:', error);
+        toast.error(error.message || '语音转写失败');
+      } finally {
+        setIsTranscribing(false);
+      }
+    };
+
+    recorderRef.current = recorder;
+    recorder.start();
+    setIsRecording(true);
+  }, [lang]);
+
+  const startRecording = useCallback(() => {
+    if (isRecording || isTranscribing) return;
+    if (provider === 'browser') {
+      startBrowserRecognition();
+    } else if (provider === 'server') {
+      startServerRecording();
+    }
+  }, [provider, isRecording, isTranscribing, startBrowserRecognition, startServerRecording]);
+
+  const stopRecording = useCallback(() => {
+    recognitionRef.current?.stop();
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.stop();
+    }
+  }, []);
+
+  // 卸载时停止录音
+  useEffect(() => {
+    return () => {
+      recognitionRef.current?.abort();
+      const recorder = recorderRef.current;
+      if (recorder) {
+        recorder.onstop = null;
+        if (recorder.state === 'recording') recorder.stop();
+        recorder.stream.getTracks().forEach(track => track.stop());
+      }
+    };
+  }, []);
+
+  return {
+    isSupported: provider !== null,
+    isRecording,
+    isTranscribing,
+    startRecording,
+    stopRecording,
+  };
+};
+
+export default useVoiceInput;
\ No newline at end of file
@@ -1,18 +1,48 @@
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import axios, { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
 import {
   LoginRequest,
+  UpgradeAccountRequest,
+  UserSession,
+  ChangeEmailRequest,
+  ChangePasswordRequest,
   TokenResponse,
   ChatRequest,
   ChatResponse,
   ConversationHistory,
   Conversation,
+  ConversationUpdate,
+  ImportedConversation,
+  ImportConversationResponse,
+  ConversationShare,
+  CreateShareRequest,
+  SharedConversation,
+  Attachment,
   User,
-  ApiError
+  ApiError,
+  SearchResponse
 } from '../types';
+import { cacheService } from './cacheService';
+import { LOGIN_PATH, buildLoginPath } from '../utils/routes';
+import { searchService } from './searchService';
+import { realtimeSocket } from './realtimeSocket';
+
+// token到期前提前刷新的时间
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+const TOKEN_EXPIRES_AT_KEY = 'token_expires_at';
+
+// 带有刷新标记的请求配置
+interface RetriableRequestConfig extends InternalAxiosRequestConfig {
+  // 刷新token本身以及校验密码的请求，不触发刷新（401表示凭证错误而不是登录失效）
+  skipAuthRefresh?: boolean;
+  // 已在刷新token后重试过
+  _retry?: boolean;
+}
 
 class ApiService {
   private client: AxiosInstance;
   private baseURL: string;
+  // 进行中的刷新请求，同一时间只刷新一次，其余请求等待其结果
+  private refreshPromise: Promise<TokenResponse> | null = null;
 
   constructor() {
     this.baseURL = process.env.REACT_APP_API_BASE_URL || 'http://localhost:8000/api';
@@ -25,9 +55,16 @@ class ApiService {
       },
     });
 
-    // 请求拦截器 - 添加认证token
+    // 请求拦截器 - token即将过期时先刷新，再添加认证token
     this.client.interceptors.request.use(
-      (config) => {
+      async (config: RetriableRequestConfig) => {
+        if (!config.skipAuthRefresh && this.isTokenExpiring()) {
+          try {
+            await this.refreshToken();
+          } catch (error) {
+            // 刷新失败时仍使用原token发送，由响应拦截器处理401
+          }
+        }
         const token = localStorage.getItem('access_token');
         if (token) {
           config.headers.Authorization = `Bearer ${token}`;
@@ -39,17 +76,21 @@ class ApiService {
       }
     );
 
-    // 响应拦截器 - 处理错误
+    // 响应拦截器 - 401时刷新token并重试请求，刷新失败再跳转登录
     this.client.interceptors.response.use(
       (response: AxiosResponse) => {
         return response;
       },
-      (error) => {
-        if (error.response?.status === 401) {
-          // Token过期或无效，清除本地存储并重定向到登录
-          localStorage.removeItem('access_token');
-          localStorage.removeItem('user');
-          window.location.href = '/login';
+      async (error) => {
+        const config = error.config as RetriableRequestConfig | undefined;
+        if (error.response?.status === 401 && config && !config.skipAuthRefresh) {
+          if (!config._retry && this.getAuthToken()) {
+            config._retry = true;
+            // 刷新失败时refreshToken已处理登出，直接返回刷新错误
+            await this.refreshToken();
+            return this.client(config);
+          }
+          this.handleAuthFailure();
         }
         
         const apiError: ApiError = {
@@ -74,67 +115,290 @@ class ApiService {
     return response.data;
   }
 
+  // 刷新token并保存，并发调用共享同一个刷新请求
   async refreshToken(): Promise<TokenResponse> {
-    const response = await this.client.post<TokenResponse>('/auth/refresh');
-    return response.data;
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.client
+        .post<TokenResponse>('/auth/refresh', undefined, { skipAuthRefresh: true } as RetriableRequestConfig)
+        .then(response => {
+          this.setAuthToken(response.data.access_token, response.data.expires_in);
+          return response.data;
+        })
+        .catch((error: ApiError) => {
+          // 只有服务器明确拒绝时才登出，网络错误保留当前登录状态
+          if (error.status === 401 || error.status === 403) {
+            this.handleAuthFailure();
+          }
+          throw error;
+        })
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+    return this.refreshPromise;
   }
 
   async logout(): Promise<void> {
     await this.client.post('/auth/logout');
   }
 
+  // 将当前匿名账户升级为正式账户，对话由服务器迁移
+  async upgradeAccount(request: UpgradeAccountRequest): Promise<TokenResponse> {
+    const response = await this.client.post<TokenResponse>(
+      '/auth/upgrade',
+      request,
+      { skipAuthRefresh: true } as RetriableRequestConfig
+    );
+    return response.data;
+  }
+
   async validateToken(): Promise<{ valid: boolean; user_id: string; is_anonymous: boolean }> {
     const response = await this.client.get('/auth/validate');
     return response.data;
   }
 
+  // 上传消息附件，onProgress回调上传进度（0-100）
+  async uploadAttachment(
+    file: File,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<Attachment> {
+    const formData = new FormData();
+    formData.append('file', file);
+    const response = await this.client.post<Attachment>('/attachments', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      timeout: 300000,
+      signal,
+      onUploadProgress: (event) => {
+        if (onProgress && event.total) {
+          onProgress(Math.round((event.loaded / event.total) * 100));
+        }
+      },
+    });
+    return response.data;
+  }
+
+  // 语音转写，返回识别出的文字
+  async transcribeAudio(audio: Blob, language?: string): Promise<string> {
+    const formData = new FormData();
+    formData.append('file', audio, 'recording.webm');
+    if (language) {
+      formData.append('language', language);
+    }
+    const response = await this.client.post<{ text: string }>('/speech/transcribe', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      timeout: 120000,
+    });
+    return response.data.text;
+  }
+
+  // 账户相关API
+  async getSessions(): Promise<UserSession[]> {
+    const response = await this.client.get<{ sessions: UserSession[] }>('/auth/sessions');
+    return response.data.sessions;
+  }
+
+  async revokeSession(sessionId: string): Promise<void> {
+    await this.client.delete(`/auth/sessions/${encodeURIComponent(sessionId)}`);
+  }
+
+  async changeEmail(request: ChangeEmailRequest): Promise<User> {
+    const response = await this.client.post<User>('/auth/change-email', request);
+    return response.data;
+  }
+
+  async changePassword(request: ChangePasswordRequest): Promise<void> {
+    await this.client.post('/auth/change-password', request, { skipAuthRefresh: true } as RetriableRequestConfig);
+  }
+
+  // 导出账户的全部数据（个人信息、对话、分享等）
+  async exportUserData(): Promise<Record<string, unknown>> {
+    const response = await this.client.get<Record<string, unknown>>('/account/export', {
+      timeout: 120000,
+    });
+    return response.data;
+  }
+
+  // 永久删除账户及其全部数据
+  async deleteAccount(password?: string): Promise<void> {
+    await this.client.delete('/account', { data: { password }, skipAuthRefresh: true } as RetriableRequestConfig);
+  }
+
   // 聊天相关API
   async sendMessage(request: ChatRequest): Promise<ChatResponse> {
     const response = await this.client.post<ChatResponse>('/chat/send', request);
     return response.data;
   }
 
-  async getConversationHistory(conversationId: string, limit: number = 50): Promise<ConversationHistory> {
-    const response = await this.client.get<ConversationHistory>(
-      `/chat/history/${conversationId}?limit=${limit}`
-    );
+  // beforeId为空时获取最新一页，否则获取该消息之前的更早消息
+  async getConversationHistory(
+    conversationId: string,
+    limit: number = 50,
+    beforeId?: number
+  ): Promise<ConversationHistory> {
+    const isFirstPage = beforeId === undefined;
+    try {
+      const response = await this.client.get<ConversationHistory>(
+        `/chat/history/${conversationId}`,
+        { params: { limit, before_id: beforeId } }
+      );
+      if (isFirstPage) {
+        cacheService.saveHistory(response.data);
+      }
+      return response.data;
+    } catch (error) {
+      // 网络不可用时回退到本地缓存
+      const cached = isFirstPage && this.isNetworkError(error)
+        ? await cacheService.getHistory(conversationId)
+        : null;
+      if (cached) return cached;
+      throw error;
+    }
+  }
+
+  // archived为true时获取已归档的对话，只缓存未归档对话的第一页
+  async getUserConversations(
+    limit: number = 20,
+    offset: number = 0,
+    archived: boolean = false
+  ): Promise<{ conversations: Conversation[]; total: number }> {
+    const isFirstPage = offset === 0 && !archived;
+    try {
+      const response = await this.client.get('/chat/conversations', {
+        params: { limit, offset, archived: archived || undefined },
+      });
+      if (isFirstPage) {
+        cacheService.saveConversations(response.data.conversations, response.data.total);
+      }
+      return response.data;
+    } catch (error) {
+      // 网络不可用时回退到本地缓存
+      const cached = isFirstPage && this.isNetworkError(error)
+        ? await cacheService.getConversations()
+        : null;
+      if (cached) return cached;
+      throw error;
+    }
+  }
+
+  // 修改对话标题、置顶或归档状态
+  async updateConversation(conversationId: string, updates: ConversationUpdate): Promise<Conversation> {
+    const response = await this.client.patch<Conversation>(`/chat/conversations/${conversationId}`, updates);
+    cacheService.updateConversation(conversationId, updates);
+    return response.data;
+  }
+
+  // 根据对话的第一轮问答生成标题
+  async generateConversationTitle(conversationId: string): Promise<{ title: string }> {
+    const response = await this.client.post<{ title: string }>(`/chat/conversations/${conversationId}/title`);
+    cacheService.updateConversation(conversationId, { title: response.data.title });
     return response.data;
   }
 
-  async getUserConversations(limit: number = 20): Promise<{ conversations: Conversation[]; total: number }> {
-    const response = await this.client.get(`/chat/conversations?limit=${limit}`);
+  // 导入对话及其历史消息，创建为新对话
+  async importConversation(conversation: ImportedConversation): Promise<ImportConversationResponse> {
+    const response = await this.client.post<ImportConversationResponse>(
+      '/chat/conversations/import',
+      conversation,
+      { timeout: 120000 }
+    );
     return response.data;
   }
 
   async deleteConversation(conversationId: string): Promise<void> {
     await this.client.delete(`/chat/conversations/${conversationId}`);
+    cacheService.deleteConversation(conversationId);
+  }
+
+  // 全文搜索所有对话的消息，服务器搜索不可用时回退到本地缓存
+  async searchMessages(query: string, limit: number = 50): Promise<SearchResponse> {
+    try {
+      const response = await this.client.get<{ results: SearchResponse['results']; total: number }>(
+        '/chat/search',
+        { params: { q: query, limit } }
+      );
+      return { ...response.data, source: 'server' };
+    } catch (error) {
+      const status = (error as ApiError)?.status;
+      if (this.isNetworkError(error) || status === 404 || status === 501) {
+        const local = await searchService.search(query, limit);
+        return { ...local, source: 'local' };
+      }
+      throw error;
+    }
   }
 
-  async createNewConversation(): Promise<{ conversation_id: string; message: string }> {
-    const response = await this.client.post('/chat/conversations/new');
+  // 分享相关API
+  async createShare(request: CreateShareRequest): Promise<ConversationShare> {
+    const response = await this.client.post<ConversationShare>('/shares', request);
     return response.data;
   }
 
-  // 流式聊天API
+  async getConversationShares(conversationId: string): Promise<ConversationShare[]> {
+    const response = await this.client.get<{ shares: ConversationShare[] }>('/shares', {
+      params: { conversation_id: conversationId },
+    });
+    return response.data.shares;
+  }
+
+  async revokeShare(shareId: string): Promise<void> {
+    await this.client.delete(`/shares/${shareId}`);
+  }
+
+  // 公开接口，无需登录即可查看分享的对话
+  async getSharedConversation(shareId: string): Promise<SharedConversation> {
+    const response = await this.client.get<SharedConversation>(`/public/shares/${shareId}`);
+    return response.data;
+  }
+
+  // 本地缓存API（用于先展示缓存再后台刷新）
+  async getCachedConversationHistory(conversationId: string): Promise<ConversationHistory | null> {
+    return cacheService.getHistory(conversationId);
+  }
+
+  async getCachedUserConversations(): Promise<{ conversations: Conversation[]; total: number } | null> {
+    return cacheService.getConversations();
+  }
+
+  async cacheConversationHistory(history: ConversationHistory): Promise<void> {
+    await cacheService.saveHistory(history);
+  }
+
+  async createNewConversation(systemPrompt?: string): Promise<{ conversation_id: string; message: string }> {
+    const response = await this.client.post(
+      '/chat/conversations/new',
+      systemPrompt ? { system_prompt: systemPrompt } : undefined
+    );
+    return response.data;
+  }
+
+  // 流式聊天API，共享的WebSocket已连接时通过它传输，否则使用HTTP流
   async sendStreamMessage(
     request: ChatRequest,
     onChunk: (chunk: any) => void,
     onError: (error: Error) => void,
-    onComplete: () => void
+    onComplete: () => void,
+    signal?: AbortSignal
   ): Promise<void> {
+    if (realtimeSocket.isOpen()) {
+      return realtimeSocket.streamChat(request, onChunk, onError, onComplete, signal);
+    }
+
     try {
-      const token = localStorage.getItem('access_token');
-      const response = await fetch(`${this.baseURL}/chat/send-stream`, {
+      const response = await this.fetchWithAuth(`${this.baseURL}/chat/send-stream`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': token ? `Bearer ${token}` : '',
         },
         body: JSON.stringify(request),
+        signal,
       });
 
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        // 附带状态码，便于调用方区分可重试的错误
+        const error: Error & { status?: number } = new Error(`HTTP error! status: ${response.status}`);
+        error.status = response.status;
+        throw error;
       }
 
       const reader = response.body?.getReader();
@@ -189,27 +453,150 @@ class ApiService {
     return response.data;
   }
 
-  // 获取最近的通知
-  async getRecentNotifications(limit: number = 50): Promise<any> {
-    const response = await this.client.get(`/notifications/recent?limit=${limit}`);
+  // 获取最近的通知，since为上次返回的游标，只获取其后的事件
+  async getRecentNotifications(limit: number = 50, since?: string | null): Promise<any> {
+    const response = await this.client.get('/notifications/recent', {
+      params: { limit, since: since || undefined }
+    });
     return response.data;
   }
 
-  // 设置认证token
-  setAuthToken(token: string): void {
+  // 将通知标记为已读
+  async markNotificationsRead(eventIds: string[]): Promise<void> {
+    await this.client.post('/notifications/read', { event_ids: eventIds });
+  }
+
+  // 将全部通知标记为已读
+  async markAllNotificationsRead(): Promise<void> {
+    await this.client.post('/notifications/read-all');
+  }
+
+  // 删除通知，删除后不再出现在任何设备上
+  async dismissNotifications(eventIds: string[]): Promise<void> {
+    await this.client.post('/notifications/dismiss', { event_ids: eventIds });
+  }
+
+  // 注册Web Push订阅，eventTypes为需要推送的通知类型
+  async registerPushSubscription(subscription: PushSubscriptionJSON, eventTypes: string[]): Promise<void> {
+    await this.client.post('/notifications/push-subscriptions', {
+      subscription,
+      event_types: eventTypes,
+    });
+  }
+
+  // 取消Web Push订阅
+  async unregisterPushSubscription(endpoint: string): Promise<void> {
+    await this.client.delete('/notifications/push-subscriptions', { data: { endpoint } });
+  }
+
+  // 打开通知事件流（SSE），通过Last-Event-ID从断点续传；由调用方检查响应状态
+  async openNotificationStream(lastEventId: string | null, signal: AbortSignal): Promise<Response> {
+    const headers: Record<string, string> = { 'Accept': 'text/event-stream' };
+    if (lastEventId) {
+      headers['Last-Event-ID'] = lastEventId;
+    }
+
+    return this.fetchWithAuth(`${this.baseURL}/notifications/stream`, {
+      method: 'GET',
+      headers,
+      cache: 'no-store',
+      signal,
+    });
+  }
+
+  // 建立共享的实时WebSocket连接，WebSocket无法携带认证头，使用短期票据认证
+  async connectRealtime(): Promise<void> {
+    if (realtimeSocket.isOpen()) {
+      return;
+    }
+    const response = await this.client.post<{ ticket: string }>('/realtime/ticket');
+    const wsBaseURL = process.env.REACT_APP_WS_BASE_URL || this.baseURL.replace(/^http/, 'ws');
+    await realtimeSocket.connect(`${wsBaseURL}/ws?ticket=${encodeURIComponent(response.data.ticket)}`);
+  }
+
+  // 设置认证token，expiresIn为有效期（秒）
+  setAuthToken(token: string, expiresIn?: number): void {
     localStorage.setItem('access_token', token);
+    if (expiresIn) {
+      localStorage.setItem(TOKEN_EXPIRES_AT_KEY, String(Date.now() + expiresIn * 1000));
+    } else {
+      localStorage.removeItem(TOKEN_EXPIRES_AT_KEY);
+    }
   }
 
   // 清除认证token
   clearAuthToken(): void {
     localStorage.removeItem('access_token');
+    localStorage.removeItem(TOKEN_EXPIRES_AT_KEY);
     localStorage.removeItem('user');
+    cacheService.clear();
+    searchService.clear();
   }
 
   // 获取当前token
   getAuthToken(): string | null {
     return localStorage.getItem('access_token');
   }
+
+  // 获取token过期时间（毫秒时间戳），未知时返回null
+  getTokenExpiresAt(): number | null {
+    const value = Number(localStorage.getItem(TOKEN_EXPIRES_AT_KEY));
+    return value > 0 ? value : null;
+  }
+
+  // token是否即将过期
+  private isTokenExpiring(): boolean {
+    const expiresAt = this.getTokenExpiresAt();
+    return !!this.getAuthToken() && expiresAt !== null && expiresAt - Date.now() < TOKEN_REFRESH_MARGIN_MS;
+  }
+
+  // 带认证的fetch请求（用于流式接口），401时刷新token后重试一次
+  private async fetchWithAuth(url: string, init: RequestInit): Promise<Response> {
+    if (this.isTokenExpiring()) {
+      try {
+        await this.refreshToken();
+      } catch (error) {
+        // 刷新失败时仍使用原token发送
+      }
+    }
+
+    const doFetch = () => {
+      const token = this.getAuthToken();
+      return fetch(url, {
+        ...init,
+        headers: {
+          ...init.headers,
+          'Authorization': token ? `Bearer ${token}` : '',
+        },
+      });
+    };
+
+    const response = await doFetch();
+    if (response.status !== 401 || !this.getAuthToken()) {
+      return response;
+    }
+
+    await this.refreshToken();
+    const retried = await doFetch();
+    if (retried.status === 401) {
+      this.handleAuthFailure();
+    }
+    return retried;
+  }
+
+  // 登录状态失效：清除本地存储并重定向到登录，登录后返回当前页面
+  private handleAuthFailure(): void {
+    this.clearAuthToken();
+    const { pathname, search, hash } = window.location;
+    if (pathname !== LOGIN_PATH && !pathname.startsWith('/share/')) {
+      window.location.href = buildLoginPath(pathname + search + hash);
+    }
+  }
+
+  // 是否为网络错误（请求未得到服务器响应）
+  private isNetworkError(error: unknown): boolean {
+    return !(error as ApiError)?.status;
+  }
 }
 
 // 创建全局API服务实例
@@ -0,0 +1,224 @@
+import { Conversation, ConversationHistory, ConversationUpdate, OutboxItem } from '../types';
+
+const DB_NAME = 'wonders-cache';
+const DB_VERSION = 2;
+
+// 对象仓库
+const CONVERSATIONS_STORE = 'conversations';
+const HISTORIES_STORE = 'histories';
+const OUTBOX_STORE = 'outbox';
+
+// 对话列表在仓库中的固定键
+const CONVERSATION_LIST_KEY = 'list';
+
+// 缓存的对话列表
+export interface CachedConversationList {
+  conversations: Conversation[];
+  total: number;
+  cached_at: string;
+}
+
+// 缓存的对话历史
+export interface CachedConversationHistory extends ConversationHistory {
+  cached_at: string;
+}
+
+// 本地缓存服务类（IndexedDB）
+class CacheService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private isSupported: boolean;
+
+  constructor() {
+    // 检测浏览器是否支持IndexedDB
+    this.isSupported = typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * 打开数据库，首次打开时创建对象仓库
+   */
+  private openDB(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+            db.createObjectStore(CONVERSATIONS_STORE);
+          }
+          if (!db.objectStoreNames.contains(HISTORIES_STORE)) {
+            db.createObjectStore(HISTORIES_STORE, { keyPath: 'conversation_id' });
+          }
+          if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+            db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+          }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * 在对象仓库上执行单个请求
+   */
+  private async run<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T | undefined> {
+    if (!this.isSupported) return undefined;
+
+    try {
+      const db = await this.openDB();
+      return await new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = operation(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result as T);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+    } catch (error) {
+      // 缓存失败不影响正常使用
+      console.error('Cache operation failed:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * 获取缓存的对话列表
+   */
+  async getConversations(): Promise<CachedConversationList | null> {
+    const cached = await this.run<CachedConversationList>(
+      CONVERSATIONS_STORE,
+      'readonly',
+      store => store.get(CONVERSATION_LIST_KEY)
+    );
+    return cached || null;
+  }
+
+  /**
+   * 缓存对话列表
+   */
+  async saveConversations(conversations: Conversation[], total: number): Promise<void> {
+    const entry: CachedConversationList = {
+      conversations,
+      total,
+      cached_at: new Date().toISOString(),
+    };
+    await this.run(CONVERSATIONS_STORE, 'readwrite', store => store.put(entry, CONVERSATION_LIST_KEY));
+  }
+
+  /**
+   * 获取缓存的对话历史
+   */
+  async getHistory(conversationId: string): Promise<CachedConversationHistory | null> {
+    const cached = await this.run<CachedConversationHistory>(
+      HISTORIES_STORE,
+      'readonly',
+      store => store.get(conversationId)
+    );
+    return cached || null;
+  }
+
+  /**
+   * 获取所有缓存的对话历史（用于本地搜索）
+   */
+  async getAllHistories(): Promise<CachedConversationHistory[]> {
+    const histories = await this.run<CachedConversationHistory[]>(
+      HISTORIES_STORE,
+      'readonly',
+      store => store.getAll()
+    );
+    return histories || [];
+  }
+
+  /**
+   * 缓存对话历史
+   */
+  async saveHistory(history: ConversationHistory): Promise<void> {
+    const entry: CachedConversationHistory = {
+      ...history,
+      cached_at: new Date().toISOString(),
+    };
+    await this.run(HISTORIES_STORE, 'readwrite', store => store.put(entry));
+  }
+
+  /**
+   * 删除对话的缓存，并从缓存的对话列表中移除
+   */
+  async deleteConversation(conversationId: string): Promise<void> {
+    await this.run(HISTORIES_STORE, 'readwrite', store => store.delete(conversationId));
+
+    const cached = await this.getConversations();
+    if (cached) {
+      const conversations = cached.conversations.filter(
+        conv => conv.conversation_id !== conversationId
+      );
+      await this.saveConversations(conversations, Math.max(0, cached.total - 1));
+    }
+  }
+
+  /**
+   * 更新缓存的对话列表中的对话属性，归档的对话从列表中移除
+   */
+  async updateConversation(conversationId: string, updates: ConversationUpdate): Promise<void> {
+    const cached = await this.getConversations();
+    if (!cached) return;
+
+    const exists = cached.conversations.some(conv => conv.conversation_id === conversationId);
+    if (!exists) return;
+
+    if (updates.is_archived) {
+      const conversations = cached.conversations.filter(conv => conv.conversation_id !== conversationId);
+      await this.saveConversations(conversations, Math.max(0, cached.total - 1));
+      return;
+    }
+
+    const conversations = cached.conversations.map(conv =>
+      conv.conversation_id === conversationId ? { ...conv, ...updates } : conv
+    );
+    await this.saveConversations(conversations, cached.total);
+  }
+
+  /**
+   * 获取发件箱中的所有消息（按创建时间排序）
+   */
+  async getOutboxItems(): Promise<OutboxItem[]> {
+    const items = await this.run<OutboxItem[]>(OUTBOX_STORE, 'readonly', store => store.getAll());
+    return (items || []).sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  /**
+   * 保存发件箱消息
+   */
+  async saveOutboxItem(item: OutboxItem): Promise<void> {
+    await this.run(OUTBOX_STORE, 'readwrite', store => store.put(item));
+  }
+
+  /**
+   * 删除发件箱消息
+   */
+  async deleteOutboxItem(id: string): Promise<void> {
+    await this.run(OUTBOX_STORE, 'readwrite', store => store.delete(id));
+  }
+
+  /**
+   * 清空所有缓存和发件箱（登出时调用）
+   */
+  async clear(): Promise<void> {
+    await this.run(CONVERSATIONS_STORE, 'readwrite', store => store.clear());
+    await this.run(HISTORIES_STORE, 'readwrite', store => store.clear());
+    await this.run(OUTBOX_STORE, 'readwrite', store => store.clear());
+  }
+}
+
+// 导出单例实例
+export const cacheService = new CacheService();
+
+export default CacheService;
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { ChatMessage, Conversation, ExportedConversation, MessageRole } from '../types';
+import { apiService } from './api';
+import { deriveConversationTitle } from '../utils/conversations';
+
+// 导出时分页获取数据的大小
+const HISTORY_PAGE_SIZE = 100;
+const CONVERSATIONS_PAGE_SIZE = 50;
+
+// 对话导出服务类（获取完整的对话数据）
+class ExportService {
+  /**
+   * 获取对话的全部历史消息（按时间顺序）
+   */
+  async getFullHistory(conversationId: string): Promise<ChatMessage[]> {
+    let messages: ChatMessage[] = [];
+    const loadedIds = new Set<number>();
+    let beforeId: number | undefined;
+
+    while (true) {
+      const history = await apiService.getConversationHistory(conversationId, HISTORY_PAGE_SIZE, beforeId);
+      const olderMessages = history.messages.filter(message => !loadedIds.has(message.id));
+      if (olderMessages.length === 0) break;
+
+      olderMessages.forEach(message => loadedIds.add(message.id));
+      messages = [...olderMessages, ...messages];
+      const hasMore = history.has_more ?? messages.length < history.total_messages;
+      if (!hasMore) break;
+      beforeId = olderMessages[0].id;
+    }
+
+    return messages;
+  }
+
+  /**
+   * 获取所有对话（包括已归档的对话）
+   */
+  async getAllConversations(): Promise<Conversation[]> {
+    const conversations: Conversation[] = [];
+
+    for (const archived of [false, true]) {
+      let offset = 0;
+      while (true) {
+        const response = await apiService.getUserConversations(CONVERSATIONS_PAGE_SIZE, offset, archived);
+        conversations.push(...response.conversations);
+        offset += response.conversations.length;
+        if (response.conversations.length === 0 || offset >= response.total) break;
+      }
+    }
+
+    return conversations;
+  }
+
+  /**
+   * 获取单个对话的导出数据
+   */
+  async getExportedConversation(conversation: Conversation): Promise<ExportedConversation> {
+    const messages = await this.getFullHistory(conversation.conversation_id);
+    const firstUserMessage = messages.find(message => message.role === MessageRole.USER);
+
+    return {
+      conversation_id: conversation.conversation_id,
+      title: conversation.title ||
+        (firstUserMessage ? deriveConversationTitle(firstUserMessage.content) : '未命名对话'),
+      last_updated: conversation.last_updated,
+      messages,
+    };
+  }
+
+  /**
+   * 获取所有对话的导出数据
+   */
+  async getAllExportedConversations(): Promise<ExportedConversation[]> {
+    const conversations = await this.getAllConversations();
+    const exported: ExportedConversation[] = [];
+
+    // 逐个获取，避免同时发出大量请求
+    for (const conversation of conversations) {
+      exported.push(await this.getExportedConversation(conversation));
+    }
+
+    return exported;
+  }
+}
+
+// 导出单例实例
+export const exportService = new ExportService();
+
+export default ExportService;
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { apiService } from './api';
+import NotificationService, { NotificationType } from './notificationService';
+import { createEvent, createResponse, flushPolling } from './notificationTestUtils';
+
+jest.mock('./api', () => ({
+  apiService: {
+    getRecentNotifications: jest.fn(),
+  },
+}));
+
+const getRecentNotifications = apiService.getRecentNotifications as jest.Mock;
+
+describe('NotificationService', () => {
+  const originalTransport = process.env.REACT_APP_NOTIFICATION_TRANSPORT;
+  let service: NotificationService;
+
+  beforeEach(() => {
+    getRecentNotifications.mockReset();
+    // 只使用轮询，测试环境中没有流式传输
+    process.env.REACT_APP_NOTIFICATION_TRANSPORT = 'polling';
+    service = new NotificationService();
+  });
+
+  afterEach(() => {
+    service.stop();
+    process.env.REACT_APP_NOTIFICATION_TRANSPORT = originalTransport;
+  });
+
+  it('delivers each event id only once', async () => {
+    getRecentNotifications
+      .mockResolvedValueOnce(createResponse([
+        createEvent('evt-1', '2024-01-01T00:00:01Z'),
+        createEvent('evt-1', '2024-01-01T00:00:01Z'),
+        createEvent('evt-2', '2024-01-01T00:00:02Z'),
+      ]))
+      .mockResolvedValueOnce(createResponse([
+        createEvent('evt-2', '2024-01-01T00:00:02Z'),
+        createEvent('evt-3', '2024-01-01T00:00:03Z'),
+      ]));
+    const typeListener = jest.fn();
+    const globalListener = jest.fn();
+    service.subscribe(NotificationType.SYSTEM_NOTIFICATION, typeListener);
+    service.subscribeAll(globalListener);
+
+    service.start();
+    await flushPolling();
+    // 重新启动时从游标续传，服务器重发的事件不应再次投递
+    service.stop();
+    service.start();
+    await flushPolling();
+
+    const delivered = globalListener.mock.calls.map(([event]) => event.event_id);
+    expect(delivered).toEqual(['evt-1', 'evt-2', 'evt-3']);
+    expect(typeListener).toHaveBeenCalledTimes(3);
+  });
+
+  it('resumes polling from the latest event', async () => {
+    getRecentNotifications
+      .mockResolvedValueOnce(createResponse([
+        createEvent('evt-2', '2024-01-01T00:00:02Z'),
+        createEvent('evt-1', '2024-01-01T00:00:01Z'),
+      ]))
+      .mockResolvedValueOnce(createResponse([]));
+
+    service.start();
+    await flushPolling();
+    expect(service.getStatus().lastEventId).toBe('evt-2');
+
+    service.stop();
+    service.start();
+    await flushPolling();
+    expect(getRecentNotifications).toHaveBeenLastCalledWith(50, 'evt-2');
+  });
+});
\ No newline at end of file
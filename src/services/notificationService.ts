@@ -1,4 +1,14 @@
 import { apiService } from './api';
+import {
+  NotificationTransport,
+  NotificationTransportName,
+  NotificationTransportPreference,
+  PollingTransport,
+  createStreamingTransports,
+  parseTransportPreference
+} from './notificationTransports';
+
+export type { NotificationTransportName, NotificationTransportPreference } from './notificationTransports';
 
 // 通知事件类型
 export enum NotificationType {
@@ -17,6 +27,9 @@ export interface NotificationEvent {
   user_id?: string;
   conversation_id?: string;
   timestamp: string;
+  // 服务器记录的已读、删除状态（跨设备同步）
+  read?: boolean;
+  dismissed?: boolean;
 }
 
 // 通知响应接口
@@ -24,29 +37,49 @@ export interface NotificationResponse {
   events: NotificationEvent[];
   count: number;
   timestamp: string;
+  // 下次轮询使用的游标，缺省时使用最后一个事件的ID
+  cursor?: string;
 }
 
 // 通知监听器类型
 export type NotificationListener = (event: NotificationEvent) => void;
 
-// 通知服务类
+// 重连退避的初始与最大间隔
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+// 连续失败多少次后启用轮询兜底，流式传输恢复后自动停止轮询
+const FAILURES_BEFORE_POLLING = 3;
+// 同一传输方式连续失败多少次后尝试下一种方式
+const FAILURES_BEFORE_NEXT_TRANSPORT = 2;
+// 记录已投递事件ID的数量上限，超出后淘汰最早的记录
+const MAX_SEEN_EVENT_IDS = 1000;
+
+// 通知服务类：负责传输方式协商、重连与降级，具体传输由NotificationTransport实现
 class NotificationService {
   private listeners: Map<NotificationType, NotificationListener[]> = new Map();
   private globalListeners: NotificationListener[] = [];
-  private pollingInterval: NodeJS.Timeout | null = null;
-  private isPolling = false;
   private lastEventId: string | null = null;
-  private pollingIntervalMs = 5000; // 5秒轮询间隔
-  private eventSource: EventSource | null = null;
-  private isSSESupported = false;
+  // 已投递的事件ID，保证每个事件只投递一次
+  private seenEventIds: Set<string> = new Set();
+  private preference: NotificationTransportPreference;
+  private streamingTransports: NotificationTransport[];
+  private pollingTransport = new PollingTransport(5000); // 5秒轮询间隔
+  private transportIndex = 0;
+  private activeTransport: NotificationTransport | null = null;
+  private isStreamConnected = false;
+  private isStarted = false;
+  private reconnectAttempts = 0;
+  private transportFailures = 0;
+  private reconnectDelayMs = RECONNECT_BASE_MS;
+  private reconnectTimer: NodeJS.Timeout | null = null;
 
   constructor() {
-    // 检测浏览器是否支持SSE
-    this.isSSESupported = typeof EventSource !== 'undefined';
+    this.preference = parseTransportPreference(process.env.REACT_APP_NOTIFICATION_TRANSPORT);
+    this.streamingTransports = createStreamingTransports(this.preference);
   }
 
   /**
-   * 订阅特定类型的通知
+   * 订阅特定类型的通知，每个事件（按event_id）只会投递一次
    */
   subscribe(eventType: NotificationType, listener: NotificationListener): () => void {
     if (!this.listeners.has(eventType)) {
@@ -67,7 +100,7 @@ class NotificationService {
   }
 
   /**
-   * 订阅所有通知
+   * 订阅所有通知，每个事件（按event_id）只会投递一次
    */
   subscribeAll(listener: NotificationListener): () => void {
     this.globalListeners.push(listener);
@@ -108,131 +141,168 @@ class NotificationService {
   }
 
   /**
-   * 开始轮询通知（最小可行方案）
+   * 开始轮询通知
    */
   startPolling() {
-    if (this.isPolling) {
+    if (this.pollingTransport.isActive()) {
       return;
     }
 
-    this.isPolling = true;
     console.log('Starting notification polling...');
-
-    const poll = async () => {
-      try {
-        const response = await this.fetchRecentNotifications();
-        
-        // 处理新事件
-        response.events.forEach(event => {
-          // 只处理新事件（避免重复处理）
-          if (!this.lastEventId || event.event_id > this.lastEventId) {
-            this.triggerListeners(event);
-          }
-        });
-
-        // 更新最后处理的事件ID
-        if (response.events.length > 0) {
-          this.lastEventId = response.events[response.events.length - 1].event_id;
-        }
-      } catch (error) {
-        console.error('Polling error:', error);
+    this.pollingTransport.connect(this.lastEventId, {
+      onOpen: () => {},
+      onEvent: (event) => this.deliverEvent(event),
+      onError: () => {},
+      onCursor: (cursor) => {
+        this.lastEventId = cursor;
       }
-    };
-
-    // 立即执行一次
-    poll();
-
-    // 设置定时轮询
-    this.pollingInterval = setInterval(poll, this.pollingIntervalMs);
+    });
   }
 
   /**
    * 停止轮询
    */
   stopPolling() {
-    if (this.pollingInterval) {
-      clearInterval(this.pollingInterval);
-      this.pollingInterval = null;
+    if (!this.pollingTransport.isActive()) {
+      return;
     }
-    this.isPolling = false;
+    this.pollingTransport.disconnect();
     console.log('Stopped notification polling');
   }
 
   /**
-   * 启动SSE连接（未来扩展）
+   * 连接当前候选的流式传输
    */
-  startSSE(): boolean {
-    if (!this.isSSESupported) {
-      console.warn('SSE not supported, falling back to polling');
+  private connectStreaming() {
+    const transport = this.streamingTransports[this.transportIndex];
+    if (!transport) {
       this.startPolling();
-      return false;
+      return;
     }
 
-    try {
-      const token = localStorage.getItem('access_token');
-      if (!token) {
-        throw new Error('No access token available');
+    this.clearReconnectTimer();
+    this.activeTransport?.disconnect();
+    this.activeTransport = transport;
+    transport.connect(this.lastEventId, {
+      onOpen: () => this.handleTransportOpen(transport),
+      onEvent: (event, id) => this.handleTransportEvent(event, id),
+      onError: (error) => this.handleTransportError(transport, error),
+      onRetryHint: (retryMs) => {
+        // 服务器建议的重连间隔作为退避起点
+        this.reconnectDelayMs = Math.min(RECONNECT_MAX_MS, Math.max(RECONNECT_BASE_MS, retryMs));
       }
+    });
+  }
 
-      const baseURL = process.env.REACT_APP_API_BASE_URL || 'http://localhost:8000/api';
-      const sseUrl = `${baseURL}/notifications/stream`;
-      
-      this.eventSource = new EventSource(sseUrl);
-      
-      this.eventSource.onopen = () => {
-        console.log('SSE connection opened');
-      };
-      
-      this.eventSource.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-          
-          // 处理不同类型的SSE消息
-          if (data.type === 'connected') {
-            console.log('SSE connected for user:', data.user_id);
-          } else if (data.type === 'heartbeat') {
-            // 心跳消息，不需要处理
-          } else if (data.event_type) {
-            // 实际的通知事件
-            this.triggerListeners(data as NotificationEvent);
-          }
-        } catch (error) {
-          console.error('SSE message parsing error:', error);
-        }
-      };
-      
-      this.eventSource.onerror = (error) => {
-        console.error('SSE error:', error);
-        this.stopSSE();
-        // 回退到轮询
-        setTimeout(() => this.startPolling(), 1000);
-      };
-      
-      return true;
-    } catch (error) {
-      console.error('Failed to start SSE:', error);
-      this.startPolling();
-      return false;
+  /**
+   * 连接成功：重置退避，并从轮询升级回流式传输
+   */
+  private handleTransportOpen(transport: NotificationTransport) {
+    if (this.activeTransport !== transport) {
+      return;
+    }
+    this.isStreamConnected = true;
+    this.reconnectAttempts = 0;
+    this.transportFailures = 0;
+    this.stopPolling();
+  }
+
+  /**
+   * 收到流式通知事件：记录续传位置并分发
+   */
+  private handleTransportEvent(event: NotificationEvent, id?: string) {
+    this.lastEventId = id || event.event_id;
+    this.deliverEvent(event);
+  }
+
+  /**
+   * 分发事件，已投递过的事件（重连续传、轮询与流式重叠时）直接忽略
+   */
+  private deliverEvent(event: NotificationEvent) {
+    if (this.seenEventIds.has(event.event_id)) {
+      return;
     }
+
+    this.seenEventIds.add(event.event_id);
+    if (this.seenEventIds.size > MAX_SEEN_EVENT_IDS) {
+      // Set按插入顺序迭代，第一个即最早的记录
+      const oldest = this.seenEventIds.values().next().value;
+      if (oldest !== undefined) {
+        this.seenEventIds.delete(oldest);
+      }
+    }
+
+    this.triggerListeners(event);
   }
 
   /**
-   * 停止SSE连接
+   * 连接失败或中断：按指数退避重连，必要时切换传输方式或启用轮询兜底
    */
-  stopSSE() {
-    if (this.eventSource) {
-      this.eventSource.close();
-      this.eventSource = null;
-      console.log('SSE connection closed');
+  private handleTransportError(transport: NotificationTransport, error: Error) {
+    if (this.activeTransport !== transport) {
+      return;
+    }
+    console.error(`Notification ${transport.name} transport error:`, error);
+    transport.disconnect();
+    this.activeTransport = null;
+    this.isStreamConnected = false;
+
+    if (!this.isStarted) {
+      return;
+    }
+
+    this.reconnectAttempts += 1;
+    this.transportFailures += 1;
+
+    if (this.transportFailures >= FAILURES_BEFORE_NEXT_TRANSPORT) {
+      this.transportFailures = 0;
+      // 所有方式都失败后回到首选方式，持续尝试升级
+      this.transportIndex = (this.transportIndex + 1) % this.streamingTransports.length;
+    }
+
+    if (this.reconnectAttempts >= FAILURES_BEFORE_POLLING && !this.pollingTransport.isActive()) {
+      console.warn('Notification stream unavailable, falling back to polling until it recovers');
+      this.startPolling();
+    }
+
+    // 加入随机抖动，避免大量客户端同时重连
+    const backoff = Math.min(
+      RECONNECT_MAX_MS,
+      this.reconnectDelayMs * Math.pow(2, this.reconnectAttempts - 1)
+    );
+    const delay = Math.round(backoff * (0.8 + Math.random() * 0.4));
+    this.clearReconnectTimer();
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.isStarted) {
+        this.connectStreaming();
+      }
+    }, delay);
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
     }
   }
 
+  /**
+   * 网络恢复时立即重连，不必等待退避结束
+   */
+  private handleOnline = () => {
+    if (this.isStarted && !this.isStreamConnected && this.streamingTransports.length > 0) {
+      this.reconnectAttempts = 0;
+      this.connectStreaming();
+    }
+  };
+
   /**
    * 获取最近的通知
    */
-  async fetchRecentNotifications(limit: number = 50): Promise<NotificationResponse> {
+  async fetchRecentNotifications(limit: number = 50, since?: string | null): Promise<NotificationResponse> {
     try {
-      const response = await apiService.getRecentNotifications(limit);
+      const response = await apiService.getRecentNotifications(limit, since);
       return response;
     } catch (error) {
       console.error('Failed to fetch notifications:', error);
@@ -241,49 +311,73 @@ class NotificationService {
   }
 
   /**
-   * 启动通知服务（自动选择最佳方式）
+   * 启动通知服务（按配置协商传输方式）
    */
   start() {
-    // 目前使用轮询作为最小可行方案
-    // 未来可以根据配置或环境自动选择SSE
-    this.startPolling();
-    
-    // 取消注释以下行来启用SSE（需要后端支持认证）
-    // if (!this.startSSE()) {
-    //   this.startPolling();
-    // }
+    if (this.isStarted) {
+      return;
+    }
+    this.isStarted = true;
+    window.addEventListener('online', this.handleOnline);
+
+    // 没有可用的流式传输时直接使用轮询
+    this.transportIndex = 0;
+    this.connectStreaming();
   }
 
   /**
    * 停止通知服务
    */
   stop() {
+    this.isStarted = false;
+    window.removeEventListener('online', this.handleOnline);
+    this.clearReconnectTimer();
+    this.activeTransport?.disconnect();
+    this.activeTransport = null;
+    this.isStreamConnected = false;
+    this.reconnectAttempts = 0;
+    this.transportFailures = 0;
+    this.reconnectDelayMs = RECONNECT_BASE_MS;
     this.stopPolling();
-    this.stopSSE();
+  }
+
+  /**
+   * 切换传输方式配置，服务运行中时立即重新协商
+   */
+  setTransportPreference(preference: NotificationTransportPreference) {
+    const wasStarted = this.isStarted;
+    this.stop();
+    this.preference = preference;
+    this.streamingTransports = createStreamingTransports(preference);
+    if (wasStarted) {
+      this.start();
+    }
   }
 
   /**
    * 设置轮询间隔
    */
   setPollingInterval(intervalMs: number) {
-    this.pollingIntervalMs = intervalMs;
-    
-    // 如果正在轮询，重启以应用新间隔
-    if (this.isPolling) {
-      this.stopPolling();
-      this.startPolling();
-    }
+    this.pollingTransport.setInterval(intervalMs);
   }
 
   /**
    * 获取服务状态
    */
   getStatus() {
+    const transport: NotificationTransportName | null = this.isStreamConnected && this.activeTransport
+      ? this.activeTransport.name
+      : this.pollingTransport.isActive() ? 'polling' : null;
+
     return {
-      isPolling: this.isPolling,
-      isSSEConnected: this.eventSource?.readyState === EventSource.OPEN,
-      isSSESupported: this.isSSESupported,
-      pollingInterval: this.pollingIntervalMs,
+      isRunning: this.isStarted,
+      isPolling: this.pollingTransport.isActive(),
+      isSSEConnected: this.isStreamConnected && this.activeTransport?.name === 'sse',
+      isSSESupported: this.streamingTransports.some(t => t.name === 'sse'),
+      transport,
+      transportPreference: this.preference,
+      reconnectAttempts: this.reconnectAttempts,
+      pollingInterval: this.pollingTransport.getInterval(),
       lastEventId: this.lastEventId
     };
   }
@@ -0,0 +1,20 @@
+import { NotificationEvent, NotificationResponse, NotificationType } from './notificationService';
+
+// 通知相关测试共用的数据构造函数
+
+export const createEvent = (eventId: string, timestamp: string): NotificationEvent => ({
+  event_id: eventId,
+  event_type: NotificationType.SYSTEM_NOTIFICATION,
+  data: {},
+  timestamp,
+});
+
+export const createResponse = (events: NotificationEvent[], cursor?: string): NotificationResponse => ({
+  events,
+  count: events.length,
+  timestamp: new Date().toISOString(),
+  cursor,
+});
+
+// 等待轮询中的异步请求完成
+export const flushPolling = () => new Promise(resolve => setTimeout(resolve, 0));
\ No newline at end of file
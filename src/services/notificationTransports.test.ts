@@ -0,0 +1,89 @@
+import { apiService } from './api';
+import { PollingTransport, NotificationTransportHandlers } from './notificationTransports';
+import { createEvent, createResponse, flushPolling } from './notificationTestUtils';
+
+jest.mock('./api', () => ({
+  apiService: {
+    getRecentNotifications: jest.fn(),
+  },
+}));
+
+const getRecentNotifications = apiService.getRecentNotifications as jest.Mock;
+
+const createHandlers = (): NotificationTransportHandlers & { onEvent: jest.Mock; onCursor: jest.Mock } => ({
+  onOpen: jest.fn(),
+  onEvent: jest.fn(),
+  onError: jest.fn(),
+  onCursor: jest.fn(),
+});
+
+describe('PollingTransport', () => {
+  let transport: PollingTransport;
+
+  beforeEach(() => {
+    getRecentNotifications.mockReset();
+    transport = new PollingTransport(60000);
+  });
+
+  afterEach(() => {
+    transport.disconnect();
+  });
+
+  it('delivers events in timestamp order and advances the cursor to the latest event', async () => {
+    getRecentNotifications.mockResolvedValueOnce(createResponse([
+      createEvent('evt-3', '2024-01-01T00:00:03Z'),
+      createEvent('evt-1', '2024-01-01T00:00:01Z'),
+      createEvent('evt-2', '2024-01-01T00:00:02Z'),
+    ]));
+    const handlers = createHandlers();
+
+    transport.connect(null, handlers);
+    await flushPolling();
+
+    expect(getRecentNotifications).toHaveBeenCalledWith(50, null);
+    expect(handlers.onEvent.mock.calls.map(([event]) => event.event_id)).toEqual(['evt-1', 'evt-2', 'evt-3']);
+    expect(handlers.onCursor).toHaveBeenCalledWith('evt-3');
+  });
+
+  it('prefers the cursor returned by the server', async () => {
+    getRecentNotifications.mockResolvedValueOnce(createResponse([
+      createEvent('evt-2', '2024-01-01T00:00:02Z'),
+      createEvent('evt-1', '2024-01-01T00:00:01Z'),
+    ], 'cursor-9'));
+    const handlers = createHandlers();
+
+    transport.connect('cursor-0', handlers);
+    await flushPolling();
+
+    expect(getRecentNotifications).toHaveBeenCalledWith(50, 'cursor-0');
+    expect(handlers.onCursor).toHaveBeenCalledWith('cursor-9');
+  });
+
+  it('keeps the cursor when no new events arrive', async () => {
+    getRecentNotifications.mockResolvedValueOnce(createResponse([]));
+    const handlers = createHandlers();
+
+    transport.connect('evt-5', handlers);
+    await flushPolling();
+
+    expect(handlers.onEvent).not.toHaveBeenCalled();
+    expect(handlers.onCursor).not.toHaveBeenCalled();
+  });
+
+  it('fetches the next page from the advanced cursor when a page is full', async () => {
+    const fullPage = Array.from({ length: 50 }, (_, index) =>
+      createEvent(`evt-${index + 1}`, new Date(Date.UTC(2024, 0, 1, 0, 0, 50 - index)).toISOString())
+    );
+    getRecentNotifications
+      .mockResolvedValueOnce(createResponse(fullPage))
+      .mockResolvedValueOnce(createResponse([createEvent('evt-51', '2024-01-01T00:01:00Z')]));
+    const handlers = createHandlers();
+
+    transport.connect(null, handlers);
+    await flushPolling();
+
+    // 服务器按倒序返回，游标应取时间最新的evt-1而不是列表最后的evt-50
+    expect(getRecentNotifications).toHaveBeenNthCalledWith(2, 50, 'evt-1');
+    expect(handlers.onCursor.mock.calls.map(([cursor]) => cursor)).toEqual(['evt-1', 'evt-51']);
+  });
+});
\ No newline at end of file
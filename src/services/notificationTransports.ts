@@ -0,0 +1,434 @@
+import { apiService } from './api';
+import { realtimeSocket, RealtimeFrame } from './realtimeSocket';
+import type { NotificationEvent, NotificationResponse } from './notificationService';
+
+// SSE超过该时间未收到任何数据（含心跳）视为连接已失效
+const SSE_HEARTBEAT_TIMEOUT_MS = 45000;
+// 轮询每页数量，以及单次轮询最多连续获取的页数
+const POLLING_PAGE_SIZE = 50;
+const POLLING_MAX_PAGES = 5;
+
+// 通知传输方式
+export type NotificationTransportName = 'websocket' | 'sse' | 'polling';
+
+// 传输方式配置，auto表示按WebSocket、SSE、轮询的顺序协商
+export type NotificationTransportPreference = 'auto' | NotificationTransportName;
+
+// 传输层回调
+export interface NotificationTransportHandlers {
+  // 连接建立
+  onOpen: () => void;
+  // 收到通知事件，id为服务器提供的续传位置
+  onEvent: (event: NotificationEvent, id?: string) => void;
+  // 连接失败或中断，由通知服务决定重连或降级
+  onError: (error: Error) => void;
+  // 服务器建议的重连间隔（毫秒）
+  onRetryHint?: (retryMs: number) => void;
+  // 轮询游标更新
+  onCursor?: (cursor: string) => void;
+}
+
+// 通知传输层接口
+export interface NotificationTransport {
+  readonly name: NotificationTransportName;
+  isSupported(): boolean;
+  // lastEventId用于从断点续传
+  connect(lastEventId: string | null, handlers: NotificationTransportHandlers): void;
+  disconnect(): void;
+}
+
+// 解析后的一条SSE消息
+interface SSEMessage {
+  id?: string;
+  event?: string;
+  data: string;
+  retry?: number;
+}
+
+// 按事件时间排序，时间无效的事件保持原有顺序
+const compareByTimestamp = (a: NotificationEvent, b: NotificationEvent): number => {
+  const diff = Date.parse(a.timestamp) - Date.parse(b.timestamp);
+  return Number.isNaN(diff) ? 0 : diff;
+};
+
+/**
+ * 轮询传输：按游标请求新的通知，作为流式传输不可用时的兜底
+ */
+export class PollingTransport implements NotificationTransport {
+  readonly name = 'polling';
+  private intervalMs: number;
+  private pollingInterval: NodeJS.Timeout | null = null;
+  private cursor: string | null = null;
+  private isFetching = false;
+  private handlers: NotificationTransportHandlers | null = null;
+
+  constructor(intervalMs: number) {
+    this.intervalMs = intervalMs;
+  }
+
+  isSupported(): boolean {
+    return true;
+  }
+
+  isActive(): boolean {
+    return this.pollingInterval !== null;
+  }
+
+  getInterval(): number {
+    return this.intervalMs;
+  }
+
+  /**
+   * 设置轮询间隔，正在轮询时立即生效
+   */
+  setInterval(intervalMs: number) {
+    this.intervalMs = intervalMs;
+    if (this.pollingInterval && this.handlers) {
+      clearInterval(this.pollingInterval);
+      const handlers = this.handlers;
+      this.pollingInterval = setInterval(() => this.poll(handlers), this.intervalMs);
+    }
+  }
+
+  connect(lastEventId: string | null, handlers: NotificationTransportHandlers) {
+    this.disconnect();
+    this.cursor = lastEventId;
+    this.isFetching = false;
+    this.handlers = handlers;
+
+    // 立即执行一次
+    this.poll(handlers);
+
+    // 设置定时轮询
+    this.pollingInterval = setInterval(() => this.poll(handlers), this.intervalMs);
+  }
+
+  disconnect() {
+    if (this.pollingInterval) {
+      clearInterval(this.pollingInterval);
+      this.pollingInterval = null;
+    }
+    this.handlers = null;
+  }
+
+  /**
+   * 从游标处获取新事件，积压较多时连续翻页直到追上最新
+   */
+  private async poll(handlers: NotificationTransportHandlers) {
+    // 上一次轮询尚未完成时跳过，避免同一游标重复请求
+    if (this.isFetching) {
+      return;
+    }
+    this.isFetching = true;
+
+    try {
+      for (let page = 0; page < POLLING_MAX_PAGES; page++) {
+        const response: NotificationResponse = await apiService.getRecentNotifications(
+          POLLING_PAGE_SIZE,
+          this.cursor
+        );
+        if (this.handlers !== handlers) {
+          return;
+        }
+
+        // 服务器返回顺序不保证，同一页内按时间顺序投递；重复事件由通知服务过滤
+        const events = [...response.events].sort(compareByTimestamp);
+        events.forEach(event => handlers.onEvent(event));
+
+        const lastEvent = events[events.length - 1];
+        const cursor = response.cursor || lastEvent?.event_id || null;
+        if (!cursor || cursor === this.cursor) {
+          break;
+        }
+        this.cursor = cursor;
+        handlers.onCursor?.(cursor);
+
+        // 未取满一页说明已追上最新事件
+        if (response.events.length < POLLING_PAGE_SIZE) {
+          break;
+        }
+      }
+    } catch (error) {
+      console.error('Polling error:', error);
+    } finally {
+      if (this.handlers === handlers) {
+        this.isFetching = false;
+      }
+    }
+  }
+}
+
+/**
+ * SSE传输：通过带认证的fetch读取事件流（EventSource无法携带认证头）
+ */
+export class SSETransport implements NotificationTransport {
+  readonly name = 'sse';
+  private controller: AbortController | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+
+  isSupported(): boolean {
+    return typeof fetch !== 'undefined'
+      && typeof ReadableStream !== 'undefined'
+      && typeof TextDecoder !== 'undefined'
+      && typeof AbortController !== 'undefined';
+  }
+
+  connect(lastEventId: string | null, handlers: NotificationTransportHandlers) {
+    this.disconnect();
+    const controller = new AbortController();
+    this.controller = controller;
+    this.run(controller, lastEventId, handlers);
+  }
+
+  disconnect() {
+    this.clearHeartbeatTimer();
+    if (this.controller) {
+      this.controller.abort();
+      this.controller = null;
+    }
+  }
+
+  /**
+   * 建立一次流连接并持续读取，直到断开或被中止
+   */
+  private async run(
+    controller: AbortController,
+    lastEventId: string | null,
+    handlers: NotificationTransportHandlers
+  ) {
+    try {
+      const response = await apiService.openNotificationStream(lastEventId, controller.signal);
+      if (!response.ok || !response.body) {
+        throw new Error(`SSE HTTP error! status: ${response.status}`);
+      }
+
+      handlers.onOpen();
+      this.resetHeartbeatTimer(controller, handlers);
+      await this.readStream(response.body, controller, handlers);
+
+      throw new Error('SSE stream closed by server');
+    } catch (error) {
+      // 主动断开或已被新连接替换时不再回调
+      if (this.controller !== controller) {
+        return;
+      }
+      this.disconnect();
+      handlers.onError(error as Error);
+    }
+  }
+
+  /**
+   * 读取事件流，按空行切分SSE消息
+   */
+  private async readStream(
+    body: ReadableStream<Uint8Array>,
+    controller: AbortController,
+    handlers: NotificationTransportHandlers
+  ) {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done || this.controller !== controller) {
+          break;
+        }
+
+        // 任何数据（包括注释行形式的心跳）都说明连接仍然存活
+        this.resetHeartbeatTimer(controller, handlers);
+
+        buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n');
+        const blocks = buffer.split('\n\n');
+        buffer = blocks.pop() || '';
+
+        for (const block of blocks) {
+          const message = this.parseMessage(block);
+          if (message && this.controller === controller) {
+            this.handleMessage(message, handlers);
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  /**
+   * 解析一条SSE消息的各个字段
+   */
+  private parseMessage(block: string): SSEMessage | null {
+    const message: SSEMessage = { data: '' };
+    const dataLines: string[] = [];
+
+    for (const line of block.split('\n')) {
+      if (!line || line.startsWith(':')) {
+        continue;
+      }
+      const colonIndex = line.indexOf(':');
+      const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+      let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+      if (value.startsWith(' ')) {
+        value = value.slice(1);
+      }
+
+      if (field === 'data') {
+        dataLines.push(value);
+      } else if (field === 'id') {
+        message.id = value;
+      } else if (field === 'event') {
+        message.event = value;
+      } else if (field === 'retry' && /^\d+$/.test(value)) {
+        message.retry = parseInt(value, 10);
+      }
+    }
+
+    if (dataLines.length === 0 && message.retry === undefined) {
+      return null;
+    }
+    message.data = dataLines.join('\n');
+    return message;
+  }
+
+  /**
+   * 处理一条SSE消息并分发通知事件
+   */
+  private handleMessage(message: SSEMessage, handlers: NotificationTransportHandlers) {
+    if (message.retry !== undefined) {
+      handlers.onRetryHint?.(message.retry);
+    }
+    if (!message.data) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(message.data);
+
+      // 处理不同类型的SSE消息
+      if (data.type === 'connected' || message.event === 'connected') {
+        // 连接确认，已在收到响应时通知连接成功
+      } else if (data.type === 'heartbeat' || message.event === 'heartbeat') {
+        // 心跳消息，计时器已在读取时重置
+      } else if (data.event_type) {
+        // 实际的通知事件
+        handlers.onEvent(data as NotificationEvent, message.id);
+      }
+    } catch (error) {
+      console.error('SSE message parsing error:', error);
+    }
+  }
+
+  /**
+   * 重置心跳计时器，超时未收到数据时断开并报告错误
+   */
+  private resetHeartbeatTimer(controller: AbortController, handlers: NotificationTransportHandlers) {
+    this.clearHeartbeatTimer();
+    this.heartbeatTimer = setTimeout(() => {
+      this.heartbeatTimer = null;
+      if (this.controller === controller) {
+        this.disconnect();
+        handlers.onError(new Error('SSE heartbeat timeout'));
+      }
+    }, SSE_HEARTBEAT_TIMEOUT_MS);
+  }
+
+  private clearHeartbeatTimer() {
+    if (this.heartbeatTimer) {
+      clearTimeout(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+}
+
+/**
+ * WebSocket传输：在共享的实时连接上订阅通知，聊天流也复用该连接
+ */
+export class WebSocketTransport implements NotificationTransport {
+  readonly name = 'websocket';
+  // 每次连接递增，忽略过期连接的回调
+  private connectionId = 0;
+  private unsubscribeFrame: (() => void) | null = null;
+  private unsubscribeClose: (() => void) | null = null;
+
+  isSupported(): boolean {
+    return realtimeSocket.isSupported();
+  }
+
+  connect(lastEventId: string | null, handlers: NotificationTransportHandlers) {
+    this.removeListeners();
+    const connectionId = ++this.connectionId;
+
+    apiService.connectRealtime()
+      .then(() => {
+        if (this.connectionId !== connectionId) {
+          return;
+        }
+
+        realtimeSocket.cancelPendingClose();
+        this.unsubscribeFrame = realtimeSocket.onFrame((frame: RealtimeFrame) => {
+          if (frame.type === 'notification' && frame.event) {
+            handlers.onEvent(frame.event as NotificationEvent, frame.id);
+          }
+        });
+        this.unsubscribeClose = realtimeSocket.onClose((reason) => {
+          if (this.connectionId === connectionId) {
+            this.removeListeners();
+            handlers.onError(new Error(reason));
+          }
+        });
+
+        realtimeSocket.send({ type: 'subscribe', channel: 'notifications', last_event_id: lastEventId });
+        handlers.onOpen();
+      })
+      .catch((error) => {
+        if (this.connectionId === connectionId) {
+          this.removeListeners();
+          handlers.onError(error instanceof Error ? error : new Error(error?.message || 'WebSocket connection failed'));
+        }
+      });
+  }
+
+  // 只停止接收通知，连接仍被进行中的聊天流使用时等其结束后再关闭
+  disconnect() {
+    this.connectionId++;
+    this.removeListeners();
+    if (realtimeSocket.isOpen()) {
+      realtimeSocket.send({ type: 'unsubscribe', channel: 'notifications' });
+    }
+    realtimeSocket.closeWhenIdle();
+  }
+
+  private removeListeners() {
+    this.unsubscribeFrame?.();
+    this.unsubscribeFrame = null;
+    this.unsubscribeClose?.();
+    this.unsubscribeClose = null;
+  }
+}
+
+/**
+ * 按配置生成流式传输的候选列表（按优先级排序，仅包含浏览器支持的方式）
+ */
+export const createStreamingTransports = (
+  preference: NotificationTransportPreference
+): NotificationTransport[] => {
+  const transports: NotificationTransport[] = [];
+  if (preference === 'auto' || preference === 'websocket') {
+    transports.push(new WebSocketTransport());
+  }
+  if (preference === 'auto' || preference === 'sse') {
+    transports.push(new SSETransport());
+  }
+  return transports.filter(transport => transport.isSupported());
+};
+
+/**
+ * 解析传输方式配置，无效值按auto处理
+ */
+export const parseTransportPreference = (value: string | undefined): NotificationTransportPreference => {
+  if (value === 'websocket' || value === 'sse' || value === 'polling') {
+    return value;
+  }
+  return 'auto';
+};
\ No newline at end of file
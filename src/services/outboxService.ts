@@ -0,0 +1,281 @@
+import { ApiError, ChatMessage, ChatRequest, ChatResponse, OutboxItem } from '../types';
+import { apiService } from './api';
+import { cacheService } from './cacheService';
+import { v4 as uuidv4 } from 'uuid';
+
+// 发件箱事件
+export type OutboxEvent =
+  | { type: 'updated'; item: OutboxItem }
+  | { type: 'sent'; item: OutboxItem; response: ChatResponse }
+  | { type: 'removed'; item: OutboxItem };
+
+// 发件箱监听器类型
+export type OutboxListener = (event: OutboxEvent) => void;
+
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 60000;
+const MAX_AUTO_ATTEMPTS = 6;
+
+/**
+ * 判断发送失败是否值得重试：网络错误（无状态码）、5xx、超时和限流可以重试，其余4xx重试也不会成功
+ */
+export const isRetryableSendError = (error: unknown): boolean => {
+  const status = (error as ApiError | undefined)?.status;
+  return status === undefined || status >= 500 || status === 408 || status === 429;
+};
+
+// 离线发件箱服务类
+class OutboxService {
+  private listeners: OutboxListener[] = [];
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private isProcessing = false;
+
+  constructor() {
+    // 网络恢复时立即重试所有等待中的消息
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => this.handleOnline());
+    }
+  }
+
+  /**
+   * 订阅发件箱事件
+   */
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.push(listener);
+
+    // 返回取消订阅函数
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * 触发事件监听器
+   */
+  private emit(event: OutboxEvent) {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Outbox listener error:', error);
+      }
+    });
+  }
+
+  /**
+   * 获取发件箱中的消息，可按对话过滤
+   */
+  async getItems(conversationId?: string | null): Promise<OutboxItem[]> {
+    const items = await cacheService.getOutboxItems();
+    if (conversationId === undefined) return items;
+    return items.filter(item => (item.request.conversation_id || null) === conversationId);
+  }
+
+  /**
+   * 将消息加入发件箱并尝试发送
+   */
+  async enqueue(message: ChatMessage, request: ChatRequest, error?: string): Promise<OutboxItem> {
+    const item: OutboxItem = {
+      id: uuidv4(),
+      message_id: message.id,
+      request,
+      attachments: message.attachments,
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: Date.now(),
+      created_at: new Date().toISOString(),
+      last_error: error,
+    };
+
+    await cacheService.saveOutboxItem(item);
+    this.emit({ type: 'updated', item });
+    this.scheduleProcess(error ? RETRY_BASE_DELAY_MS : 0);
+    return item;
+  }
+
+  /**
+   * 手动重试发送失败的消息
+   */
+  async retry(messageId: number): Promise<void> {
+    const item = (await this.getItems()).find(i => i.message_id === messageId);
+    if (!item) return;
+
+    const updated: OutboxItem = {
+      ...item,
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: Date.now(),
+    };
+    await cacheService.saveOutboxItem(updated);
+    this.emit({ type: 'updated', item: updated });
+    this.scheduleProcess(0);
+  }
+
+  /**
+   * 丢弃发件箱中的消息
+   */
+  async discard(messageId: number): Promise<void> {
+    const items = await this.getItems();
+    const item = items.find(i => i.message_id === messageId);
+    if (!item) return;
+
+    // 排在其后的消息改为接到被丢弃消息的父消息之后
+    await Promise.all(
+      items
+        .filter(other => other.request.parent_message_id === item.message_id)
+        .map(other => cacheService.saveOutboxItem({
+          ...other,
+          request: { ...other.request, parent_message_id: item.request.parent_message_id },
+        }))
+    );
+    await cacheService.deleteOutboxItem(item.id);
+    this.emit({ type: 'removed', item });
+    this.scheduleProcess(0);
+  }
+
+  /**
+   * 启动发件箱处理（应用启动时调用）
+   */
+  start() {
+    this.scheduleProcess(0);
+  }
+
+  /**
+   * 网络恢复时将等待中的消息改为立即发送
+   */
+  private async handleOnline() {
+    const items = await this.getItems();
+    await Promise.all(
+      items
+        .filter(item => item.status === 'pending')
+        .map(item => cacheService.saveOutboxItem({ ...item, next_attempt_at: Date.now() }))
+    );
+    this.scheduleProcess(0);
+  }
+
+  /**
+   * 计划下一次处理
+   */
+  private scheduleProcess(delayMs: number) {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+    }
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.process();
+    }, delayMs);
+  }
+
+  /**
+   * 计算指数退避延迟（带随机抖动）
+   */
+  private getBackoffDelay(attempts: number): number {
+    const delay = Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1), RETRY_MAX_DELAY_MS);
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+
+  /**
+   * 找到下一条可发送的消息
+   * 同一对话中排在失败消息之后的消息（以及以其为父消息的新对话消息）暂停发送，直到失败消息被重试或丢弃
+   */
+  private findNextItem(items: OutboxItem[]): OutboxItem | undefined {
+    const blockedConversations = new Set<string>();
+    const blockedMessageIds = new Set<number>();
+
+    for (const item of items) {
+      const conversationId = item.request.conversation_id;
+      const parentId = item.request.parent_message_id;
+      const isBlocked = (!!conversationId && blockedConversations.has(conversationId)) ||
+        (parentId !== undefined && parentId !== null && blockedMessageIds.has(parentId));
+
+      if (item.status === 'failed' || isBlocked) {
+        if (conversationId) {
+          blockedConversations.add(conversationId);
+        }
+        blockedMessageIds.add(item.message_id);
+        continue;
+      }
+      if (item.status === 'pending') {
+        return item;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 按顺序发送等待中的消息
+   * 队首消息未到重试时间时停止，保证同一对话中的消息顺序
+   */
+  private async process() {
+    if (this.isProcessing || !navigator.onLine) return;
+    this.isProcessing = true;
+
+    try {
+      while (true) {
+        const item = this.findNextItem(await this.getItems());
+        if (!item) break;
+
+        const wait = item.next_attempt_at - Date.now();
+        if (wait > 0) {
+          this.scheduleProcess(wait);
+          break;
+        }
+
+        try {
+          const response = await apiService.sendMessage(item.request);
+          await cacheService.deleteOutboxItem(item.id);
+          await this.resolveDependents(item, response);
+          this.emit({ type: 'sent', item, response });
+        } catch (error: any) {
+          const attempts = item.attempts + 1;
+          const failed = attempts >= MAX_AUTO_ATTEMPTS || !isRetryableSendError(error);
+          const updated: OutboxItem = {
+            ...item,
+            attempts,
+            status: failed ? 'failed' : 'pending',
+            next_attempt_at: Date.now() + this.getBackoffDelay(attempts),
+            last_error: error?.message || '发送失败',
+          };
+          await cacheService.saveOutboxItem(updated);
+          this.emit({ type: 'updated', item: updated });
+
+          // 离线时等待网络恢复事件
+          if (!navigator.onLine) break;
+          if (!failed) {
+            this.scheduleProcess(updated.next_attempt_at - Date.now());
+            break;
+          }
+        }
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * 消息发送成功后，更新排在其后的消息的父消息ID和对话ID
+   */
+  private async resolveDependents(item: OutboxItem, response: ChatResponse) {
+    const items = await this.getItems();
+    await Promise.all(
+      items
+        .filter(other => other.request.parent_message_id === item.message_id)
+        .map(other => cacheService.saveOutboxItem({
+          ...other,
+          request: {
+            ...other.request,
+            parent_message_id: response.assistant_message_id,
+            conversation_id: other.request.conversation_id || response.conversation_id,
+          },
+        }))
+    );
+  }
+}
+
+// 导出单例实例
+export const outboxService = new OutboxService();
+
+export default OutboxService;
\ No newline at end of file
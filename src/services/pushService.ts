@@ -0,0 +1,159 @@
+import { apiService } from './api';
+import { NotificationEvent, NotificationType } from './notificationService';
+import { getConversationPath } from '../utils/routes';
+
+const SERVICE_WORKER_URL = `${process.env.PUBLIC_URL || ''}/push-sw.js`;
+
+// 各类型桌面通知的标题
+const NOTIFICATION_TITLES: Partial<Record<NotificationType, string>> = {
+  [NotificationType.MESSAGE_RECEIVED]: '新消息',
+  [NotificationType.SYSTEM_NOTIFICATION]: '系统通知',
+};
+
+/**
+ * 将base64url格式的VAPID公钥转换为PushManager需要的字节数组
+ */
+const urlBase64ToUint8Array = (base64String: string): Uint8Array => {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(base64);
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+};
+
+// 浏览器推送服务类：管理Service Worker、Web Push订阅和桌面通知
+class PushService {
+  private vapidPublicKey = process.env.REACT_APP_VAPID_PUBLIC_KEY;
+  private registrationPromise: Promise<ServiceWorkerRegistration | null> | null = null;
+
+  /**
+   * 浏览器是否支持桌面通知
+   */
+  isNotificationSupported(): boolean {
+    return typeof window !== 'undefined' && 'Notification' in window;
+  }
+
+  /**
+   * 浏览器是否支持Web Push，且已配置VAPID公钥
+   */
+  isPushSupported(): boolean {
+    return this.isNotificationSupported()
+      && 'serviceWorker' in navigator
+      && 'PushManager' in window
+      && !!this.vapidPublicKey;
+  }
+
+  /**
+   * 当前的通知权限
+   */
+  getPermission(): NotificationPermission | 'unsupported' {
+    return this.isNotificationSupported() ? Notification.permission : 'unsupported';
+  }
+
+  /**
+   * 请求通知权限
+   */
+  async requestPermission(): Promise<NotificationPermission | 'unsupported'> {
+    if (!this.isNotificationSupported()) {
+      return 'unsupported';
+    }
+    if (Notification.permission !== 'default') {
+      return Notification.permission;
+    }
+    return Notification.requestPermission();
+  }
+
+  /**
+   * 注册Service Worker，多次调用共享同一次注册
+   */
+  register(): Promise<ServiceWorkerRegistration | null> {
+    if (!('serviceWorker' in navigator)) {
+      return Promise.resolve(null);
+    }
+    if (!this.registrationPromise) {
+      this.registrationPromise = navigator.serviceWorker.register(SERVICE_WORKER_URL)
+        .catch(error => {
+          console.error('Service Worker注册失败:', error);
+          this.registrationPromise = null;
+          return null;
+        });
+    }
+    return this.registrationPromise;
+  }
+
+  /**
+   * 订阅Web Push并将订阅及需要推送的类型提交到服务器
+   */
+  async subscribe(eventTypes: NotificationType[]): Promise<boolean> {
+    if (!this.isPushSupported() || Notification.permission !== 'granted') {
+      return false;
+    }
+
+    const registration = await this.register();
+    if (!registration) {
+      return false;
+    }
+
+    let subscription = await registration.pushManager.getSubscription();
+    if (!subscription) {
+      subscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(this.vapidPublicKey!),
+      });
+    }
+
+    await apiService.registerPushSubscription(subscription.toJSON(), eventTypes);
+    return true;
+  }
+
+  /**
+   * 取消Web Push订阅
+   */
+  async unsubscribe(): Promise<void> {
+    if (!this.isPushSupported()) {
+      return;
+    }
+
+    const registration = await this.register();
+    const subscription = await registration?.pushManager.getSubscription();
+    if (!subscription) {
+      return;
+    }
+
+    await apiService.unregisterPushSubscription(subscription.endpoint);
+    await subscription.unsubscribe();
+  }
+
+  /**
+   * 显示桌面通知，以event_id作为tag，与服务器推送的同一通知合并显示
+   */
+  async showNotification(event: NotificationEvent): Promise<void> {
+    if (this.getPermission() !== 'granted') {
+      return;
+    }
+
+    const title = event.data?.title || NOTIFICATION_TITLES[event.event_type] || '通知';
+    const conversationId = event.conversation_id || event.data?.conversation_id;
+    const options: NotificationOptions = {
+      body: event.data?.message || event.data?.content || '',
+      tag: event.event_id,
+      data: { url: conversationId ? getConversationPath(conversationId) : '/' },
+    };
+
+    const registration = 'serviceWorker' in navigator ? await this.register() : null;
+    if (registration) {
+      await registration.showNotification(title, options);
+      return;
+    }
+
+    const notification = new Notification(title, options);
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+    };
+  }
+}
+
+// 导出单例实例
+export const pushService = new PushService();
+
+export default PushService;
\ No newline at end of file
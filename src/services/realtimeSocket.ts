@@ -0,0 +1,307 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ChatRequest } from '../types';
+
+// 客户端心跳间隔，以及发送心跳后等待服务器任意响应的超时
+const PING_INTERVAL_MS = 25000;
+const PONG_TIMEOUT_MS = 10000;
+
+// 实时连接上传输的JSON帧
+export interface RealtimeFrame {
+  type: string;
+  [key: string]: any;
+}
+
+export type RealtimeFrameHandler = (frame: RealtimeFrame) => void;
+export type RealtimeCloseHandler = (reason: string) => void;
+
+// 共享的WebSocket连接，通知与流式聊天复用同一条连接
+class RealtimeSocket {
+  private socket: WebSocket | null = null;
+  private connectPromise: Promise<void> | null = null;
+  private frameHandlers: Set<RealtimeFrameHandler> = new Set();
+  private closeHandlers: Set<RealtimeCloseHandler> = new Set();
+  private pingTimer: NodeJS.Timeout | null = null;
+  private pongTimer: NodeJS.Timeout | null = null;
+  // 进行中的聊天流数量，以及是否在聊天流全部结束后关闭连接
+  private activeStreams = 0;
+  private closePending = false;
+
+  /**
+   * 浏览器是否支持WebSocket
+   */
+  isSupported(): boolean {
+    return typeof WebSocket !== 'undefined';
+  }
+
+  /**
+   * 连接是否已建立
+   */
+  isOpen(): boolean {
+    return this.socket !== null && this.socket.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * 建立连接，已连接或正在连接时复用同一连接
+   */
+  connect(url: string): Promise<void> {
+    if (this.isOpen()) {
+      return Promise.resolve();
+    }
+    if (this.connectPromise) {
+      return this.connectPromise;
+    }
+
+    this.connectPromise = new Promise<void>((resolve, reject) => {
+      const socket = new WebSocket(url);
+      this.socket = socket;
+
+      socket.onopen = () => {
+        this.connectPromise = null;
+        this.startHeartbeat();
+        resolve();
+      };
+      socket.onmessage = (message) => {
+        this.handleMessage(message.data);
+      };
+      socket.onclose = (event) => {
+        const reason = event.reason || `WebSocket closed (${event.code})`;
+        if (this.connectPromise && this.socket === socket) {
+          this.connectPromise = null;
+          this.socket = null;
+          reject(new Error(reason));
+          return;
+        }
+        this.handleClosed(socket, reason);
+      };
+    });
+
+    return this.connectPromise;
+  }
+
+  /**
+   * 主动关闭连接，进行中的聊天流会收到错误
+   */
+  close(): void {
+    const socket = this.socket;
+    if (!socket) {
+      return;
+    }
+    if (this.connectPromise) {
+      // 连接尚未建立，onclose会拒绝connect返回的Promise
+      socket.close(1000);
+      return;
+    }
+    this.handleClosed(socket, 'WebSocket closed by client');
+    socket.close(1000);
+  }
+
+  /**
+   * 没有进行中的聊天流时立即关闭连接，否则等聊天流全部结束后关闭
+   */
+  closeWhenIdle(): void {
+    if (this.activeStreams > 0) {
+      this.closePending = true;
+      return;
+    }
+    this.close();
+  }
+
+  /**
+   * 连接重新被使用，取消等待中的关闭
+   */
+  cancelPendingClose(): void {
+    this.closePending = false;
+  }
+
+  /**
+   * 发送一帧数据
+   */
+  send(frame: RealtimeFrame): void {
+    if (!this.socket || !this.isOpen()) {
+      throw new Error('实时连接未建立');
+    }
+    this.socket.send(JSON.stringify(frame));
+  }
+
+  /**
+   * 监听收到的帧，返回取消监听函数
+   */
+  onFrame(handler: RealtimeFrameHandler): () => void {
+    this.frameHandlers.add(handler);
+    return () => {
+      this.frameHandlers.delete(handler);
+    };
+  }
+
+  /**
+   * 监听连接断开，返回取消监听函数
+   */
+  onClose(handler: RealtimeCloseHandler): () => void {
+    this.closeHandlers.add(handler);
+    return () => {
+      this.closeHandlers.delete(handler);
+    };
+  }
+
+  /**
+   * 通过连接发送流式聊天请求，回调约定与HTTP流式接口一致，结束后Promise完成
+   */
+  streamChat(
+    request: ChatRequest,
+    onChunk: (chunk: any) => void,
+    onError: (error: Error) => void,
+    onComplete: () => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    return new Promise<void>((resolve) => {
+      const requestId = uuidv4();
+      let settled = false;
+      this.activeStreams++;
+
+      const finish = (error?: Error) => {
+        if (settled) return;
+        settled = true;
+        unsubscribeFrame();
+        unsubscribeClose();
+        signal?.removeEventListener('abort', handleAbort);
+        this.activeStreams--;
+        if (this.activeStreams === 0 && this.closePending) {
+          this.closePending = false;
+          this.close();
+        }
+        if (error) {
+          onError(error);
+        } else {
+          onComplete();
+        }
+        resolve();
+      };
+
+      const handleAbort = () => {
+        if (this.isOpen()) {
+          this.send({ type: 'chat_cancel', request_id: requestId });
+        }
+        finish(new DOMException('The user aborted a request.', 'AbortError'));
+      };
+
+      const unsubscribeFrame = this.onFrame((frame) => {
+        if (frame.request_id !== requestId) return;
+        if (frame.type === 'chat_error') {
+          finish(new Error(frame.message || '流式消息失败'));
+        } else if (frame.type === 'chat_chunk') {
+          onChunk(frame.data);
+          if (frame.data?.finished) {
+            finish();
+          }
+        }
+      });
+      const unsubscribeClose = this.onClose((reason) => finish(new Error(reason)));
+
+      if (signal?.aborted) {
+        finish(new DOMException('The user aborted a request.', 'AbortError'));
+        return;
+      }
+      signal?.addEventListener('abort', handleAbort);
+
+      try {
+        this.send({ type: 'chat', request_id: requestId, request });
+      } catch (error) {
+        finish(error as Error);
+      }
+    });
+  }
+
+  /**
+   * 解析并分发收到的帧，任何数据都说明连接存活
+   */
+  private handleMessage(raw: unknown) {
+    this.clearPongTimer();
+    if (typeof raw !== 'string') {
+      return;
+    }
+
+    let frame: RealtimeFrame;
+    try {
+      frame = JSON.parse(raw);
+    } catch (error) {
+      console.error('Realtime frame parsing error:', error);
+      return;
+    }
+
+    if (frame.type === 'pong') {
+      return;
+    }
+    if (frame.type === 'ping') {
+      this.send({ type: 'pong' });
+      return;
+    }
+
+    this.frameHandlers.forEach(handler => {
+      try {
+        handler(frame);
+      } catch (error) {
+        console.error('Realtime frame handler error:', error);
+      }
+    });
+  }
+
+  /**
+   * 连接断开：清理状态并通知监听者
+   */
+  private handleClosed(socket: WebSocket, reason: string) {
+    if (this.socket !== socket) {
+      return;
+    }
+    this.socket = null;
+    this.stopHeartbeat();
+    this.closeHandlers.forEach(handler => {
+      try {
+        handler(reason);
+      } catch (error) {
+        console.error('Realtime close handler error:', error);
+      }
+    });
+  }
+
+  /**
+   * 定期发送心跳，超时未收到响应时视为连接失效
+   */
+  private startHeartbeat() {
+    this.stopHeartbeat();
+    const socket = this.socket;
+    this.pingTimer = setInterval(() => {
+      if (!socket || this.socket !== socket) {
+        return;
+      }
+      this.send({ type: 'ping' });
+      if (!this.pongTimer) {
+        this.pongTimer = setTimeout(() => {
+          this.pongTimer = null;
+          console.warn('Realtime heartbeat timeout, closing connection');
+          this.handleClosed(socket, 'WebSocket heartbeat timeout');
+          socket.close(4000, 'heartbeat timeout');
+        }, PONG_TIMEOUT_MS);
+      }
+    }, PING_INTERVAL_MS);
+  }
+
+  private stopHeartbeat() {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+    this.clearPongTimer();
+  }
+
+  private clearPongTimer() {
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = null;
+    }
+  }
+}
+
+// 导出单例实例
+export const realtimeSocket = new RealtimeSocket();
+
+export default RealtimeSocket;
\ No newline at end of file
@@ -0,0 +1,102 @@
+import { ChatMessage, MessageSearchResult } from '../types';
+import { cacheService } from './cacheService';
+import { getSearchTerms, matchesTerms } from '../utils/search';
+
+// 索引中的单条消息
+interface IndexedMessage {
+  message: ChatMessage;
+  text: string;
+}
+
+// 单个对话的索引，cached_at用于判断缓存是否已更新
+interface ConversationIndex {
+  cached_at: string;
+  title?: string;
+  entries: IndexedMessage[];
+}
+
+// 本地搜索服务类（在服务器搜索不可用时检索本地缓存的对话历史）
+class SearchService {
+  private index: Map<string, ConversationIndex> = new Map();
+
+  /**
+   * 根据缓存的对话历史增量更新索引
+   */
+  private async refreshIndex(): Promise<void> {
+    const [histories, cachedList] = await Promise.all([
+      cacheService.getAllHistories(),
+      cacheService.getConversations(),
+    ]);
+    const titles: Record<string, string> = {};
+    cachedList?.conversations.forEach(conv => {
+      titles[conv.conversation_id] = conv.title || conv.last_message;
+    });
+
+    const seen = new Set<string>();
+    histories.forEach(history => {
+      seen.add(history.conversation_id);
+      const existing = this.index.get(history.conversation_id);
+      if (existing && existing.cached_at === history.cached_at) {
+        existing.title = titles[history.conversation_id];
+        return;
+      }
+
+      this.index.set(history.conversation_id, {
+        cached_at: history.cached_at,
+        title: titles[history.conversation_id],
+        entries: history.messages
+          .filter(message => message.content)
+          .map(message => ({ message, text: message.content.toLowerCase() })),
+      });
+    });
+
+    // 移除已删除对话的索引
+    Array.from(this.index.keys()).forEach(conversationId => {
+      if (!seen.has(conversationId)) {
+        this.index.delete(conversationId);
+      }
+    });
+  }
+
+  /**
+   * 搜索本地缓存的消息，结果按时间倒序
+   */
+  async search(query: string, limit: number = 50): Promise<{ results: MessageSearchResult[]; total: number }> {
+    const terms = getSearchTerms(query);
+    if (terms.length === 0) {
+      return { results: [], total: 0 };
+    }
+
+    await this.refreshIndex();
+
+    const results: MessageSearchResult[] = [];
+    this.index.forEach((conversation, conversationId) => {
+      conversation.entries.forEach(({ message, text }) => {
+        if (!matchesTerms(text, terms)) return;
+        results.push({
+          conversation_id: conversationId,
+          message_id: message.id,
+          role: message.role,
+          content: message.content,
+          conversation_title: conversation.title,
+          created_at: message.created_at,
+        });
+      });
+    });
+
+    results.sort((a, b) => b.created_at.localeCompare(a.created_at));
+    return { results: results.slice(0, limit), total: results.length };
+  }
+
+  /**
+   * 清空索引（登出时调用）
+   */
+  clear() {
+    this.index.clear();
+  }
+}
+
+// 导出单例实例
+export const searchService = new SearchService();
+
+export default SearchService;
\ No newline at end of file
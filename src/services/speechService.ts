@@ -0,0 +1,114 @@
+import { toSpeechText, findSpeakableEnd, detectSpeechLang } from '../utils/speech';
+
+type SpeechEndListener = () => void;
+
+// 语音朗读服务类（逐句朗读，支持在内容流式生成时持续追加）
+class SpeechService {
+  private spokenLength = 0;
+  private pendingUtterances = 0;
+  private isFinal = false;
+  private isActive = false;
+  // 每次开始或停止朗读时递增，忽略已取消朗读的回调
+  private session = 0;
+  private listeners: Set<SpeechEndListener> = new Set();
+
+  /**
+   * 浏览器是否支持语音合成
+   */
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && 'speechSynthesis' in window;
+  }
+
+  /**
+   * 开始朗读新的内容，会停止正在进行的朗读
+   */
+  start(text: string, isFinal: boolean): void {
+    if (!this.isSupported()) return;
+    window.speechSynthesis.cancel();
+    this.session++;
+    this.spokenLength = 0;
+    this.pendingUtterances = 0;
+    this.isFinal = false;
+    this.isActive = true;
+    this.update(text, isFinal);
+  }
+
+  /**
+   * 内容更新时朗读新增的完整句子，isFinal为true时朗读剩余全部内容
+   */
+  update(text: string, isFinal: boolean): void {
+    if (!this.isActive) return;
+
+    const remaining = text.slice(this.spokenLength);
+    const end = isFinal ? remaining.length : findSpeakableEnd(remaining);
+    if (end > 0) {
+      this.speakChunk(remaining.slice(0, end));
+      this.spokenLength += end;
+    }
+
+    this.isFinal = isFinal;
+    this.checkFinished();
+  }
+
+  /**
+   * 停止朗读
+   */
+  stop(): void {
+    if (!this.isActive) return;
+    this.isActive = false;
+    this.session++;
+    if (this.isSupported()) {
+      window.speechSynthesis.cancel();
+    }
+    this.notifyEnd();
+  }
+
+  /**
+   * 订阅朗读结束（读完或被停止）
+   */
+  onEnd(listener: SpeechEndListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private speakChunk(chunk: string): void {
+    const text = toSpeechText(chunk);
+    if (!text) return;
+
+    const session = this.session;
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = detectSpeechLang(text);
+    utterance.onend = utterance.onerror = () => {
+      if (session !== this.session) return;
+      this.pendingUtterances = Math.max(0, this.pendingUtterances - 1);
+      this.checkFinished();
+    };
+    this.pendingUtterances++;
+    window.speechSynthesis.speak(utterance);
+  }
+
+  // 内容已完整且全部读完时结束
+  private checkFinished(): void {
+    if (this.isActive && this.isFinal && this.pendingUtterances === 0) {
+      this.isActive = false;
+      this.notifyEnd();
+    }
+  }
+
+  private notifyEnd(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('朗读结束回调执行失败:', error);
+      }
+    });
+  }
+}
+
+// 导出单例实例
+export const speechService = new SpeechService();
+
+export default SpeechService;
\ No newline at end of file
@@ -0,0 +1,105 @@
+import { createClient, Session, SupabaseClient } from '@supabase/supabase-js';
+import { AuthCallbackMode, OAuthProvider } from '../types';
+import { buildAuthCallbackUrl } from '../utils/routes';
+
+// Supabase认证服务类（注册、邮件链接登录、第三方登录和重置密码）
+// 只用于获取Supabase会话，登录状态以后端token为准，因此不持久化Supabase会话
+class SupabaseService {
+  private client: SupabaseClient | null = null;
+  private url = process.env.REACT_APP_SUPABASE_URL;
+  private anonKey = process.env.REACT_APP_SUPABASE_ANON_KEY;
+
+  /**
+   * 是否已配置Supabase
+   */
+  isConfigured(): boolean {
+    return !!(this.url && this.anonKey);
+  }
+
+  /**
+   * 获取客户端，首次使用时创建（会自动解析回调URL中的会话）
+   */
+  private getClient(): SupabaseClient {
+    if (!this.url || !this.anonKey) {
+      throw new Error('未配置Supabase，无法使用该登录方式');
+    }
+    if (!this.client) {
+      this.client = createClient(this.url, this.anonKey, {
+        auth: {
+          persistSession: false,
+          autoRefreshToken: false,
+          detectSessionInUrl: true,
+        },
+      });
+    }
+    return this.client;
+  }
+
+  /**
+   * 注册账户，未开启邮箱验证时直接返回会话，否则返回null并发送验证邮件
+   */
+  async signUp(email: string, password: string, redirect?: string, mode?: AuthCallbackMode): Promise<Session | null> {
+    const { data, error } = await this.getClient().auth.signUp({
+      email,
+      password,
+      options: { emailRedirectTo: buildAuthCallbackUrl(redirect, mode) },
+    });
+    if (error) throw new Error(error.message || '注册失败');
+    return data.session;
+  }
+
+  /**
+   * 发送邮件登录链接
+   */
+  async sendMagicLink(email: string, redirect?: string): Promise<void> {
+    const { error } = await this.getClient().auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: buildAuthCallbackUrl(redirect) },
+    });
+    if (error) throw new Error(error.message || '发送登录链接失败');
+  }
+
+  /**
+   * 跳转到第三方登录页面
+   */
+  async signInWithOAuth(provider: OAuthProvider, redirect?: string, mode?: AuthCallbackMode): Promise<void> {
+    const { error } = await this.getClient().auth.signInWithOAuth({
+      provider,
+      options: { redirectTo: buildAuthCallbackUrl(redirect, mode) },
+    });
+    if (error) throw new Error(error.message || '第三方登录失败');
+  }
+
+  /**
+   * 发送重置密码邮件
+   */
+  async sendPasswordReset(email: string): Promise<void> {
+    const { error } = await this.getClient().auth.resetPasswordForEmail(email, {
+      redirectTo: buildAuthCallbackUrl(undefined, 'recovery'),
+    });
+    if (error) throw new Error(error.message || '发送重置密码邮件失败');
+  }
+
+  /**
+   * 获取回调URL中携带的会话
+   */
+  async getSession(): Promise<Session | null> {
+    const { data, error } = await this.getClient().auth.getSession();
+    if (error) throw new Error(error.message || '登录链接无效或已过期');
+    return data.session;
+  }
+
+  /**
+   * 为当前会话设置新密码
+   */
+  async updatePassword(password: string): Promise<Session | null> {
+    const { error } = await this.getClient().auth.updateUser({ password });
+    if (error) throw new Error(error.message || '设置密码失败');
+    return this.getSession();
+  }
+}
+
+// 导出单例实例
+export const supabaseService = new SupabaseService();
+
+export default SupabaseService;
\ No newline at end of file
@@ -1,3 +1,5 @@
+import type { ReactNode } from 'react';
+
 // 用户相关类型
 export interface User {
   id: string;
@@ -7,6 +9,26 @@ export interface User {
   last_active?: string;
 }
 
+// 登录的会话（设备）
+export interface UserSession {
+  session_id: string;
+  user_agent?: string;
+  ip_address?: string;
+  created_at: string;
+  last_active?: string;
+  is_current: boolean;
+}
+
+export interface ChangeEmailRequest {
+  email: string;
+  password?: string;
+}
+
+export interface ChangePasswordRequest {
+  current_password: string;
+  new_password: string;
+}
+
 // 认证相关类型
 export interface LoginRequest {
   email?: string;
@@ -15,6 +37,19 @@ export interface LoginRequest {
   anonymous: boolean;
 }
 
+// 通过Supabase支持的第三方登录
+export type OAuthProvider = 'github' | 'google';
+
+// Supabase回调页面的处理方式：重置密码或升级匿名账户
+export type AuthCallbackMode = 'recovery' | 'upgrade';
+
+// 将匿名账户升级为正式账户，服务器会把匿名账户的对话迁移到正式账户
+export interface UpgradeAccountRequest {
+  email?: string;
+  password?: string;
+  supabase_token?: string;
+}
+
 export interface TokenResponse {
   access_token: string;
   token_type: string;
@@ -37,11 +72,69 @@ export interface ChatMessage {
   content: string;
   conversation_id?: string;
   created_at: string;
+  parent_id?: number | null; // 分支对话中的父消息ID，null表示对话的第一条消息
+  is_truncated?: boolean; // 流式生成被用户中途停止
+  model_used?: string;
+  tokens_used?: number;
+  send_status?: MessageSendStatus; // 未设置表示已发送成功
+  attachments?: Attachment[];
+}
+
+// 已上传到服务器的消息附件
+export interface Attachment {
+  id: string;
+  name: string;
+  mime_type: string;
+  size: number;
+  url: string;
+  thumbnail_url?: string;
+}
+
+// 输入框中待发送的附件
+export interface PendingAttachment {
+  local_id: string;
+  file: File;
+  preview_url?: string; // 图片的本地预览地址
+  progress: number; // 上传进度 0-100
+  status: 'uploading' | 'uploaded' | 'failed';
+  attachment?: Attachment; // 上传成功后的服务器附件
+  error?: string;
+}
+
+// 消息发送状态
+export type MessageSendStatus = 'pending' | 'failed';
+
+// 离线发件箱中待发送的消息
+export interface OutboxItem {
+  id: string;
+  message_id: number; // 界面中用户消息的临时ID
+  request: ChatRequest;
+  attachments?: Attachment[]; // 用户消息的附件，重新加载后用于显示
+  status: MessageSendStatus;
+  attempts: number;
+  next_attempt_at: number; // 下次自动重试的时间戳（毫秒）
+  created_at: string;
+  last_error?: string;
+}
+
+// 树状消息模型，用于支持重新生成和编辑后的分支对话
+export interface MessageTree {
+  messages: Record<number, ChatMessage>;
+  children: Record<string, number[]>; // 父消息ID -> 子消息ID列表（按创建顺序）
+  activeChild: Record<string, number>; // 父消息ID -> 当前选中的子消息ID
+}
+
+export interface BranchInfo {
+  index: number;
+  total: number;
 }
 
 export interface ChatRequest {
   message: string;
   conversation_id?: string;
+  parent_message_id?: number | null; // 在该消息之后继续对话，null表示从对话开头分支
+  regenerate?: boolean; // 为parent_message_id重新生成回复，不创建新的用户消息
+  attachment_ids?: string[]; // 已上传附件的ID
   model?: string;
   temperature?: number;
   max_tokens?: number;
@@ -61,12 +154,19 @@ export interface Conversation {
   conversation_id: string;
   last_message: string;
   last_updated: string;
+  title?: string;
+  is_pinned?: boolean;
+  is_archived?: boolean;
 }
 
+// 可修改的对话属性
+export type ConversationUpdate = Partial<Pick<Conversation, 'title' | 'is_pinned' | 'is_archived'>>;
+
 export interface ConversationHistory {
   conversation_id: string;
   messages: ChatMessage[];
   total_messages: number;
+  has_more?: boolean; // 是否还有更早的消息，未返回时根据total_messages判断
 }
 
 // 流式响应类型
@@ -78,6 +178,132 @@ export interface StreamChunk {
   conversation_id?: string;
   user_message_id?: number;
   assistant_message_id?: number;
+  model_used?: string;
+  tokens_used?: number;
+}
+
+// 生成参数类型
+export interface GenerationSettings {
+  model: string; // 空字符串表示使用后端默认模型
+  temperature: number;
+  max_tokens: number;
+}
+
+export interface ModelOption {
+  value: string;
+  label: string;
+}
+
+// 角色预设类型
+export interface Persona {
+  id: string;
+  name: string;
+  system_prompt: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// 对话所使用的角色（创建对话时的快照）
+export interface ConversationPersona {
+  persona_id?: string;
+  name: string;
+  system_prompt: string;
+}
+
+// 搜索相关类型
+export type SearchSource = 'server' | 'local';
+
+export interface MessageSearchResult {
+  conversation_id: string;
+  message_id: number;
+  role: MessageRole;
+  content: string;
+  snippet?: string;
+  conversation_title?: string;
+  created_at: string;
+}
+
+export interface SearchResponse {
+  results: MessageSearchResult[];
+  total: number;
+  source: SearchSource;
+}
+
+// 按对话分组的搜索结果
+export interface SearchResultGroup {
+  conversation_id: string;
+  conversation_title?: string;
+  results: MessageSearchResult[];
+}
+
+// 导出相关类型
+export type ExportFormat = 'markdown' | 'json' | 'html' | 'pdf';
+
+export interface ExportedConversation {
+  conversation_id: string;
+  title: string;
+  last_updated?: string;
+  messages: ChatMessage[];
+}
+
+// 版本化的JSON导出格式
+export interface ConversationExport {
+  format: string;
+  version: number;
+  exported_at: string;
+  conversations: ExportedConversation[];
+}
+
+// 导入相关类型
+export type ImportSource = 'wonders' | 'chatgpt' | 'claude';
+
+export interface ImportedMessage {
+  role: MessageRole;
+  content: string;
+  created_at?: string;
+}
+
+export interface ImportedConversation {
+  title: string;
+  created_at?: string;
+  messages: ImportedMessage[];
+}
+
+// 解析后待确认的导入内容
+export interface ImportPreview {
+  source: ImportSource;
+  conversations: ImportedConversation[];
+  skipped: number;
+}
+
+export interface ImportConversationResponse {
+  conversation_id: string;
+  message_count: number;
+}
+
+// 分享相关类型
+export interface ConversationShare {
+  share_id: string;
+  conversation_id: string;
+  title?: string;
+  // 为空时分享整个对话
+  message_ids?: number[] | null;
+  view_count?: number;
+  created_at: string;
+}
+
+export interface CreateShareRequest {
+  conversation_id: string;
+  title?: string;
+  message_ids?: number[];
+}
+
+// 公开分享页面展示的只读对话
+export interface SharedConversation {
+  share_id: string;
+  title?: string;
+  messages: ChatMessage[];
+  created_at: string;
 }
 
 // API响应类型
@@ -101,11 +327,24 @@ export interface AppState {
 export interface ChatBubbleProps {
   message: ChatMessage;
   isLoading?: boolean;
+  branchInfo?: BranchInfo;
+  actionsDisabled?: boolean;
+  onSwitchBranch?: (offset: number) => void;
+  onRegenerate?: () => void;
+  onEdit?: (content: string) => void;
+  onCopyLink?: () => void;
+  onRetry?: () => void;
+  onDiscard?: () => void;
+  isHighlighted?: boolean;
+  isReadingAloud?: boolean;
+  onReadAloud?: () => void;
 }
 
 export interface ChatInputProps {
-  onSendMessage: (message: string) => void;
+  onSendMessage: (message: string, attachments?: Attachment[]) => void;
+  onStop?: () => void;
   disabled?: boolean;
+  isStreaming?: boolean;
   placeholder?: string;
 }
 
@@ -115,6 +354,76 @@ export interface ConversationListProps {
   onSelectConversation: (conversationId: string) => void;
   onNewConversation: () => void;
   onDeleteConversation: (conversationId: string) => void;
+  totalConversations?: number;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  onOpenSearchResult?: (conversationId: string, messageId: number) => void;
+  showArchived?: boolean;
+  onToggleArchived?: () => void;
+  onRenameConversation?: (conversationId: string, title: string) => void;
+  onPinConversation?: (conversationId: string, pinned: boolean) => void;
+  onArchiveConversation?: (conversationId: string, archived: boolean) => void;
+  onExportConversation?: (conversation: Conversation) => void;
+}
+
+export interface ExportDialogProps {
+  isOpen: boolean;
+  // 为null时导出所有对话
+  conversation: Conversation | null;
+  onClose: () => void;
+}
+
+export interface ShareDialogProps {
+  isOpen: boolean;
+  conversationId: string | null;
+  title?: string;
+  messages: ChatMessage[];
+  onClose: () => void;
+}
+
+export interface ImportDialogProps {
+  isOpen: boolean;
+  onImported: () => void;
+  onClose: () => void;
+}
+
+export interface ExportDocumentProps {
+  conversations: ExportedConversation[];
+  exportedAt: string;
+}
+
+export interface SearchResultsProps {
+  query: string;
+  groups: SearchResultGroup[];
+  conversations: Conversation[];
+  isSearching: boolean;
+  source: SearchSource | null;
+  onSelectResult: (result: MessageSearchResult) => void;
+}
+
+export interface UpgradeAccountDialogProps {
+  isOpen: boolean;
+  onUpgraded: () => void;
+  onClose: () => void;
+}
+
+export interface AuthProviderProps {
+  children: ReactNode;
+}
+
+export interface GenerationSettingsPanelProps {
+  isOpen: boolean;
+  settings: GenerationSettings;
+  onChange: (settings: Partial<GenerationSettings>) => void;
+  onClose: () => void;
+}
+
+export interface PersonaManagerProps {
+  isOpen: boolean;
+  activePersona: ConversationPersona | null;
+  onStartConversation: (persona: ConversationPersona) => void;
+  onClose: () => void;
 }
 
 // 错误类型
@@ -138,20 +447,99 @@ export interface UseAuthReturn {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
+  // 首次验证登录状态中
+  isInitializing: boolean;
   login: (request: LoginRequest) => Promise<void>;
+  upgradeAccount: (request: UpgradeAccountRequest) => Promise<void>;
+  // 重新获取用户信息（修改邮箱等操作后）
+  refreshUser: () => Promise<void>;
+  deleteAccount: (password?: string) => Promise<void>;
   logout: () => void;
   refreshToken: () => Promise<void>;
 }
 
+export interface UsePersonasReturn {
+  personas: Persona[];
+  createPersona: (name: string, systemPrompt: string) => Persona;
+  updatePersona: (id: string, updates: Partial<Pick<Persona, 'name' | 'system_prompt'>>) => void;
+  deletePersona: (id: string) => void;
+  importPersonas: (file: File) => Promise<number>;
+}
+
+export interface UseSearchReturn {
+  query: string;
+  setQuery: (query: string) => void;
+  results: MessageSearchResult[];
+  groups: SearchResultGroup[];
+  isSearching: boolean;
+  source: SearchSource | null;
+  clearSearch: () => void;
+}
+
+// 语音输入方式：浏览器语音识别或上传录音由服务器转写
+export type VoiceInputProvider = 'browser' | 'server';
+
+export interface UseVoiceInputReturn {
+  isSupported: boolean;
+  isRecording: boolean;
+  isTranscribing: boolean;
+  startRecording: () => void;
+  stopRecording: () => void;
+}
+
+export interface UseReadAloudReturn {
+  readingMessageId: number | null;
+  isSupported: boolean;
+  toggleReadAloud: (messageId: number) => void;
+  stopReadAloud: () => void;
+}
+
+export interface UseAttachmentsReturn {
+  attachments: PendingAttachment[];
+  isUploading: boolean;
+  // 上传成功、可以随消息发送的附件
+  uploadedAttachments: Attachment[];
+  addFiles: (files: File[]) => void;
+  removeAttachment: (localId: string) => void;
+  retryAttachment: (localId: string) => void;
+  clearAttachments: () => void;
+}
+
 export interface UseChatReturn {
   messages: ChatMessage[];
   conversations: Conversation[];
   currentConversation: string | null;
   isLoading: boolean;
-  sendMessage: (message: string) => Promise<void>;
-  sendStreamMessage: (message: string) => Promise<void>;
+  hasMoreMessages: boolean;
+  isLoadingOlderMessages: boolean;
+  loadOlderMessages: () => Promise<void>;
+  totalConversations: number;
+  hasMoreConversations: boolean;
+  isLoadingMoreConversations: boolean;
+  loadMoreConversations: () => Promise<void>;
+  refreshConversations: () => Promise<void>;
+  showArchived: boolean;
+  setShowArchived: (showArchived: boolean) => void;
+  renameConversation: (conversationId: string, title: string) => Promise<void>;
+  pinConversation: (conversationId: string, pinned: boolean) => Promise<void>;
+  archiveConversation: (conversationId: string, archived: boolean) => Promise<void>;
+  isStreaming: boolean;
+  sendMessage: (message: string, attachments?: Attachment[]) => Promise<void>;
+  sendStreamMessage: (message: string, attachments?: Attachment[]) => Promise<void>;
+  stopGeneration: () => void;
+  regenerateMessage: (messageId: number) => Promise<void>;
+  editMessage: (messageId: number, content: string) => Promise<void>;
+  switchBranch: (messageId: number, offset: number) => void;
+  getBranchInfo: (messageId: number) => BranchInfo;
+  retryMessage: (messageId: number) => Promise<void>;
+  discardMessage: (messageId: number) => Promise<void>;
+  generationSettings: GenerationSettings;
+  updateGenerationSettings: (settings: Partial<GenerationSettings>) => void;
+  activePersona: ConversationPersona | null;
   selectConversation: (conversationId: string) => void;
-  createNewConversation: () => void;
+  closeConversation: () => void;
+  createNewConversation: (persona?: ConversationPersona) => void;
   deleteConversation: (conversationId: string) => Promise<void>;
   loadConversationHistory: (conversationId: string) => Promise<void>;
+  revealMessage: (conversationId: string, messageId: number) => Promise<boolean>;
 }
\ No newline at end of file
@@ -0,0 +1,54 @@
+// 单个附件的最大大小
+export const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024;
+
+// 每条消息最多的附件数量
+export const MAX_ATTACHMENTS = 10;
+
+// 支持的附件类型（文件选择框的accept）
+export const ACCEPTED_ATTACHMENT_TYPES = [
+  'image/*',
+  'application/pdf',
+  'text/*',
+  '.md',
+  '.json',
+  '.csv',
+  '.doc',
+  '.docx',
+  '.xls',
+  '.xlsx',
+  '.ppt',
+  '.pptx',
+].join(',');
+
+const ACCEPTED_EXTENSIONS = /\.(md|json|csv|docx?|xlsx?|pptx?)$/i;
+
+/**
+ * 是否为图片类型
+ */
+export const isImageType = (mimeType: string): boolean => mimeType.startsWith('image/');
+
+/**
+ * 格式化文件大小
+ */
+export const formatFileSize = (size: number): string => {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / 1024 / 1024).toFixed(1)} MB`;
+};
+
+/**
+ * 检查文件能否作为附件上传，返回错误信息或null
+ */
+export const validateAttachmentFile = (file: File): string | null => {
+  const isAccepted = isImageType(file.type)
+    || file.type === 'application/pdf'
+    || file.type.startsWith('text/')
+    || ACCEPTED_EXTENSIONS.test(file.name);
+  if (!isAccepted) {
+    return `不支持的文件类型：${file.name}`;
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `${file.name} 超过 ${formatFileSize(MAX_ATTACHMENT_SIZE)} 的大小限制`;
+  }
+  return null;
+};
\ No newline at end of file
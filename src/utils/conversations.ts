@@ -0,0 +1,21 @@
+import { Conversation } from '../types';
+
+// 自动生成标题的最大长度
+const TITLE_MAX_LENGTH = 30;
+
+/**
+ * 从第一条用户消息生成对话标题（服务器无法生成标题时使用）
+ */
+export const deriveConversationTitle = (firstMessage: string): string => {
+  const text = firstMessage.replace(/\s+/g, ' ').trim();
+  if (text.length <= TITLE_MAX_LENGTH) return text;
+  return text.substring(0, TITLE_MAX_LENGTH) + '...';
+};
+
+/**
+ * 置顶的对话排在前面，其余保持原有顺序
+ */
+export const sortConversations = (conversations: Conversation[]): Conversation[] => [
+  ...conversations.filter(conv => conv.is_pinned),
+  ...conversations.filter(conv => !conv.is_pinned),
+];
\ No newline at end of file
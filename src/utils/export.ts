@@ -0,0 +1,176 @@
+import { ChatMessage, ConversationExport, ExportedConversation, ExportFormat, MessageRole } from '../types';
+import { buildMessageTree, getActivePath } from './messageTree';
+
+// JSON导出格式标识和版本，格式变化时递增版本号
+export const EXPORT_FORMAT = 'wonders-conversations';
+export const EXPORT_VERSION = 1;
+
+// 各导出格式的文件扩展名和MIME类型
+export const EXPORT_FILE_TYPES: Record<Exclude<ExportFormat, 'pdf'>, { extension: string; mimeType: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown;charset=utf-8' },
+  json: { extension: 'json', mimeType: 'application/json;charset=utf-8' },
+  html: { extension: 'html', mimeType: 'text/html;charset=utf-8' },
+};
+
+const ROLE_LABELS: Record<MessageRole, string> = {
+  [MessageRole.USER]: '用户',
+  [MessageRole.ASSISTANT]: 'AI 助手',
+  [MessageRole.SYSTEM]: '系统提示词',
+};
+
+/**
+ * 获取消息角色的显示名称
+ */
+export const getRoleLabel = (role: MessageRole): string => ROLE_LABELS[role] || role;
+
+/**
+ * 格式化导出中的时间
+ */
+export const formatExportTime = (dateString: string): string =>
+  new Date(dateString).toLocaleString('zh-CN', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+/**
+ * 获取对话当前分支上的消息，用于Markdown、HTML和PDF导出
+ */
+export const getExportMessages = (conversation: ExportedConversation): ChatMessage[] =>
+  getActivePath(buildMessageTree(conversation.messages));
+
+/**
+ * 去除仅在客户端使用的字段
+ */
+const toExportMessage = (message: ChatMessage): ChatMessage => {
+  const { send_status, ...rest } = message;
+  return rest;
+};
+
+/**
+ * 生成版本化的JSON导出数据（包含所有分支的消息）
+ */
+export const toExportJSON = (conversations: ExportedConversation[]): string => {
+  const data: ConversationExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    conversations: conversations.map(conversation => ({
+      ...conversation,
+      messages: conversation.messages.map(toExportMessage),
+    })),
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+/**
+ * 生成Markdown导出内容
+ */
+export const toExportMarkdown = (conversations: ExportedConversation[]): string => {
+  const sections = conversations.map(conversation => {
+    const messages = getExportMessages(conversation);
+    const lines = [`# ${conversation.title}`, ''];
+    if (conversation.last_updated) {
+      lines.push(`> 最后更新：${formatExportTime(conversation.last_updated)} · ${messages.length} 条消息`, '');
+    }
+
+    messages.forEach(message => {
+      lines.push(`### ${getRoleLabel(message.role)} · ${formatExportTime(message.created_at)}`, '');
+      lines.push(message.content, '');
+    });
+
+    return lines.join('\n');
+  });
+
+  return sections.join('\n---\n\n');
+};
+
+/**
+ * 转义HTML特殊字符
+ */
+export const escapeHTML = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * 将对话正文包装为独立的HTML页面
+ */
+export const toExportHTML = (title: string, body: string): string => `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHTML(title)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", "PingFang SC", "Microsoft YaHei", sans-serif; color: #111827; background: #f9fafb; margin: 0; padding: 32px 16px; line-height: 1.6; }
+  main { max-width: 800px; margin: 0 auto; }
+  h1 { font-size: 24px; margin: 0 0 4px; }
+  .meta { color: #6b7280; font-size: 13px; margin-bottom: 24px; }
+  .conversation + .conversation { margin-top: 48px; padding-top: 32px; border-top: 1px solid #e5e7eb; }
+  .message { border-radius: 12px; padding: 12px 16px; margin-bottom: 16px; background: #fff; border: 1px solid #e5e7eb; page-break-inside: avoid; }
+  .message.user { background: #eff6ff; border-color: #bfdbfe; }
+  .message.system { background: #fffbeb; border: 1px dashed #fcd34d; }
+  .role { font-size: 12px; font-weight: 600; color: #4b5563; margin-bottom: 6px; }
+  .role span { font-weight: 400; color: #9ca3af; margin-left: 8px; }
+  .content p { margin: 0 0 8px; }
+  .content p:last-child { margin-bottom: 0; }
+  .content pre { border-radius: 6px; overflow-x: auto; font-size: 13px; }
+  .content code { font-family: "SFMono-Regular", Consolas, monospace; }
+  .content :not(pre) > code { background: #f3f4f6; padding: 1px 6px; border-radius: 4px; font-size: 13px; }
+  .content table { border-collapse: collapse; margin-bottom: 8px; }
+  .content th, .content td { border: 1px solid #d1d5db; padding: 4px 8px; }
+  .content blockquote { border-left: 4px solid #d1d5db; margin: 0 0 8px; padding-left: 12px; color: #4b5563; }
+  .plain { white-space: pre-wrap; word-break: break-word; }
+  @media print { body { background: #fff; padding: 0; } }
+</style>
+</head>
+<body>
+<main>${body}</main>
+</body>
+</html>`;
+
+/**
+ * 生成安全的文件名
+ */
+export const toFileName = (title: string, extension: string): string => {
+  const name = title.replace(/[\\/:*?"<>|\s]+/g, '_').replace(/^_+|_+$/g, '').substring(0, 60);
+  return `${name || 'conversation'}.${extension}`;
+};
+
+/**
+ * 触发浏览器下载文件
+ */
+export const downloadFile = (content: string, fileName: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/**
+ * 在隐藏的iframe中打开HTML并调用打印，用户可选择另存为PDF
+ */
+export const printHTML = (html: string): void => {
+  const iframe = document.createElement('iframe');
+  iframe.style.position = 'fixed';
+  iframe.style.width = '0';
+  iframe.style.height = '0';
+  iframe.style.border = '0';
+  iframe.onload = () => {
+    iframe.contentWindow?.focus();
+    iframe.contentWindow?.print();
+    // 打印对话框关闭后移除iframe
+    setTimeout(() => document.body.removeChild(iframe), 1000);
+  };
+  iframe.srcdoc = html;
+  document.body.appendChild(iframe);
+};
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { GenerationSettings, ModelOption, ChatRequest } from '../types';
+import { readJSON, writeJSON } from './storage';
+
+const STORAGE_KEY = 'generation_settings';
+
+// 新对话（尚未分配ID）使用的设置键，同时作为其他对话的默认值
+export const DEFAULT_SETTINGS_KEY = 'default';
+
+export const MODEL_OPTIONS: ModelOption[] = [
+  { value: '', label: '默认模型' },
+  { value: 'gpt-4o-mini', label: 'GPT-4o mini' },
+  { value: 'gpt-4o', label: 'GPT-4o' },
+  { value: 'gpt-3.5-turbo', label: 'GPT-3.5 Turbo' },
+];
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  model: '',
+  temperature: 0.7,
+  max_tokens: 2048,
+};
+
+export const TEMPERATURE_RANGE = { min: 0, max: 2, step: 0.1 };
+export const MAX_TOKENS_RANGE = { min: 64, max: 8192, step: 64 };
+
+/**
+ * 从localStorage读取各对话的生成参数
+ */
+export const loadGenerationSettings = (): Record<string, GenerationSettings> =>
+  readJSON<Record<string, GenerationSettings>>(STORAGE_KEY, {});
+
+/**
+ * 保存各对话的生成参数到localStorage
+ */
+export const saveGenerationSettings = (settings: Record<string, GenerationSettings>): void =>
+  writeJSON(STORAGE_KEY, settings);
+
+/**
+ * 获取对话的生成参数，未设置时回退到默认值
+ */
+export const resolveGenerationSettings = (
+  settings: Record<string, GenerationSettings>,
+  conversationId: string | null
+): GenerationSettings => ({
+  ...DEFAULT_GENERATION_SETTINGS,
+  ...settings[DEFAULT_SETTINGS_KEY],
+  ...(conversationId ? settings[conversationId] : undefined),
+});
+
+/**
+ * 转换为ChatRequest中的参数字段
+ */
+export const toRequestParams = (
+  settings: GenerationSettings
+): Pick<ChatRequest, 'model' | 'temperature' | 'max_tokens'> => ({
+  model: settings.model || undefined,
+  temperature: settings.temperature,
+  max_tokens: settings.max_tokens,
+});
\ No newline at end of file
@@ -0,0 +1,252 @@
+import Ajv from 'ajv';
+import {
+  ConversationExport,
+  ImportedConversation,
+  ImportedMessage,
+  ImportPreview,
+  ImportSource,
+  MessageRole
+} from '../types';
+import { EXPORT_FORMAT, EXPORT_VERSION, getExportMessages } from './export';
+import { deriveConversationTitle } from './conversations';
+
+const ajv = new Ajv({ allowUnionTypes: true });
+
+// 本应用导出的JSON格式
+const wondersSchema = {
+  type: 'object',
+  required: ['format', 'version', 'conversations'],
+  properties: {
+    format: { const: EXPORT_FORMAT },
+    version: { type: 'integer', minimum: 1 },
+    conversations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['title', 'messages'],
+        properties: {
+          title: { type: 'string' },
+          messages: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['id', 'role', 'content', 'created_at'],
+              properties: {
+                id: { type: 'integer' },
+                role: { enum: Object.values(MessageRole) },
+                content: { type: 'string' },
+                created_at: { type: 'string' },
+                parent_id: { type: ['integer', 'null'] },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+// ChatGPT导出的conversations.json（消息以树状mapping保存）
+const chatGPTSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    required: ['mapping'],
+    properties: {
+      title: { type: ['string', 'null'] },
+      create_time: { type: ['number', 'null'] },
+      current_node: { type: ['string', 'null'] },
+      mapping: {
+        type: 'object',
+        additionalProperties: {
+          type: 'object',
+          properties: {
+            parent: { type: ['string', 'null'] },
+            message: {
+              type: ['object', 'null'],
+              properties: {
+                author: {
+                  type: 'object',
+                  required: ['role'],
+                  properties: { role: { type: 'string' } },
+                },
+                create_time: { type: ['number', 'null'] },
+                content: {
+                  type: 'object',
+                  properties: { parts: { type: 'array' } },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+// Claude导出的conversations.json
+const claudeSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    required: ['chat_messages'],
+    properties: {
+      name: { type: ['string', 'null'] },
+      created_at: { type: 'string' },
+      chat_messages: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['sender'],
+          properties: {
+            sender: { enum: ['human', 'assistant'] },
+            text: { type: 'string' },
+            created_at: { type: 'string' },
+            content: { type: 'array' },
+          },
+        },
+      },
+    },
+  },
+};
+
+const validateWonders = ajv.compile<ConversationExport>(wondersSchema);
+const validateChatGPT = ajv.compile(chatGPTSchema);
+const validateClaude = ajv.compile(claudeSchema);
+
+// 秒级时间戳转换为ISO时间
+const fromUnixTime = (seconds?: number | null): string | undefined =>
+  typeof seconds === 'number' ? new Date(seconds * 1000).toISOString() : undefined;
+
+// 没有标题时使用第一条用户消息
+const resolveTitle = (title: string | null | undefined, messages: ImportedMessage[]): string => {
+  if (title && title.trim()) return title.trim();
+  const firstUserMessage = messages.find(message => message.role === MessageRole.USER);
+  return firstUserMessage ? deriveConversationTitle(firstUserMessage.content) : '导入的对话';
+};
+
+/**
+ * 解析本应用导出的JSON，只导入每个对话当前分支上的消息
+ */
+const parseWonders = (data: ConversationExport): ImportedConversation[] => {
+  if (data.version > EXPORT_VERSION) {
+    throw new Error('导出文件的版本较新，请升级应用后再导入');
+  }
+
+  return data.conversations.map(conversation => {
+    const messages = getExportMessages(conversation).map(message => ({
+      role: message.role,
+      content: message.content,
+      created_at: message.created_at,
+    }));
+    return {
+      title: resolveTitle(conversation.title, messages),
+      created_at: messages[0]?.created_at,
+      messages,
+    };
+  });
+};
+
+/**
+ * 解析ChatGPT导出，从current_node沿parent回溯得到当前分支
+ */
+const parseChatGPT = (data: any[]): ImportedConversation[] =>
+  data.map(conversation => {
+    const mapping = conversation.mapping || {};
+    const path: any[] = [];
+    let nodeId: string | null | undefined = conversation.current_node;
+    while (nodeId && mapping[nodeId]) {
+      path.unshift(mapping[nodeId]);
+      nodeId = mapping[nodeId].parent;
+    }
+
+    const roleMap: Record<string, MessageRole> = {
+      user: MessageRole.USER,
+      assistant: MessageRole.ASSISTANT,
+      system: MessageRole.SYSTEM,
+    };
+    const messages: ImportedMessage[] = path
+      .map(node => node.message)
+      .filter(message => message && roleMap[message.author.role])
+      .map(message => ({
+        role: roleMap[message.author.role],
+        content: (message.content?.parts || [])
+          .filter((part: unknown) => typeof part === 'string')
+          .join('\n')
+          .trim(),
+        created_at: fromUnixTime(message.create_time),
+      }))
+      .filter(message => message.content);
+
+    return {
+      title: resolveTitle(conversation.title, messages),
+      created_at: fromUnixTime(conversation.create_time),
+      messages,
+    };
+  });
+
+/**
+ * 解析Claude导出
+ */
+const parseClaude = (data: any[]): ImportedConversation[] =>
+  data.map(conversation => {
+    const messages: ImportedMessage[] = conversation.chat_messages
+      .map((message: any) => ({
+        role: message.sender === 'human' ? MessageRole.USER : MessageRole.ASSISTANT,
+        content: (message.text || (message.content || [])
+          .filter((part: any) => part?.type === 'text' && typeof part.text === 'string')
+          .map((part: any) => part.text)
+          .join('\n')).trim(),
+        created_at: message.created_at,
+      }))
+      .filter((message: ImportedMessage) => message.content);
+
+    return {
+      title: resolveTitle(conversation.name, messages),
+      created_at: conversation.created_at,
+      messages,
+    };
+  });
+
+/**
+ * 识别并解析导入文件，返回可预览的对话列表（跳过没有消息的对话）
+ */
+export const parseImportFile = (text: string): ImportPreview => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error('文件不是有效的JSON');
+  }
+
+  let source: ImportSource;
+  let conversations: ImportedConversation[];
+  if (validateWonders(data)) {
+    source = 'wonders';
+    conversations = parseWonders(data);
+  } else if (data?.format === EXPORT_FORMAT) {
+    throw new Error(`导出文件格式错误：${ajv.errorsText(validateWonders.errors)}`);
+  } else if (Array.isArray(data) && data.length > 0 && validateChatGPT(data)) {
+    source = 'chatgpt';
+    conversations = parseChatGPT(data);
+  } else if (Array.isArray(data) && data.length > 0 && validateClaude(data)) {
+    source = 'claude';
+    conversations = parseClaude(data);
+  } else {
+    throw new Error('无法识别的文件格式，支持本应用、ChatGPT和Claude导出的JSON文件');
+  }
+
+  const valid = conversations.filter(conversation => conversation.messages.length > 0);
+  return {
+    source,
+    conversations: valid,
+    skipped: conversations.length - valid.length,
+  };
+};
+
+// 导入来源的显示名称
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  wonders: '本应用导出',
+  chatgpt: 'ChatGPT',
+  claude: 'Claude',
+};
\ No newline at end of file
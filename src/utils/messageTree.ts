@@ -0,0 +1,290 @@
+import { ChatMessage, MessageTree, BranchInfo } from '../types';
+
+// 对话第一条消息在children/activeChild中使用的键
+const ROOT_KEY = 'root';
+
+// 父消息尚未加载（分页只加载了部分历史）时，消息暂时作为根消息，待加载到父消息后再接回
+const keyOf = (tree: MessageTree, parentId: number | null | undefined): string =>
+  parentId === null || parentId === undefined || !tree.messages[parentId]
+    ? ROOT_KEY
+    : String(parentId);
+
+/**
+ * 创建空的消息树
+ */
+export const createMessageTree = (): MessageTree => ({
+  messages: {},
+  children: {},
+  activeChild: {},
+});
+
+/**
+ * 在指定父消息下添加消息，并将其设为当前分支
+ */
+export const addMessage = (
+  tree: MessageTree,
+  message: ChatMessage,
+  parentId: number | null
+): MessageTree => {
+  const key = keyOf(tree, parentId);
+  return {
+    messages: {
+      ...tree.messages,
+      [message.id]: { ...message, parent_id: parentId },
+    },
+    children: {
+      ...tree.children,
+      [key]: [...(tree.children[key] || []), message.id],
+    },
+    activeChild: {
+      ...tree.activeChild,
+      [key]: message.id,
+    },
+  };
+};
+
+/**
+ * 从后端返回的消息列表构建消息树
+ * 没有parent_id的消息视为接在上一条消息之后
+ */
+export const buildMessageTree = (messages: ChatMessage[]): MessageTree => {
+  let tree = createMessageTree();
+  let previousId: number | null = null;
+
+  messages.forEach(message => {
+    const parentId: number | null =
+      message.parent_id !== undefined ? message.parent_id : previousId;
+    tree = addMessage(tree, message, parentId);
+    previousId = message.id;
+  });
+
+  return tree;
+};
+
+/**
+ * 获取当前选中分支上的消息（从根到叶）
+ */
+export const getActivePath = (tree: MessageTree): ChatMessage[] => {
+  const path: ChatMessage[] = [];
+  let id = tree.activeChild[ROOT_KEY];
+
+  while (id !== undefined && tree.messages[id]) {
+    path.push(tree.messages[id]);
+    id = tree.activeChild[String(id)];
+  }
+
+  return path;
+};
+
+/**
+ * 获取消息在兄弟版本中的位置
+ */
+export const getBranchInfo = (tree: MessageTree, messageId: number): BranchInfo => {
+  const message = tree.messages[messageId];
+  if (!message) {
+    return { index: 0, total: 0 };
+  }
+
+  const siblings = tree.children[keyOf(tree, message.parent_id)] || [];
+  return {
+    index: siblings.indexOf(messageId),
+    total: siblings.length,
+  };
+};
+
+/**
+ * 切换到相邻的兄弟版本
+ */
+export const switchBranch = (
+  tree: MessageTree,
+  messageId: number,
+  offset: number
+): MessageTree => {
+  const message = tree.messages[messageId];
+  if (!message) return tree;
+
+  const key = keyOf(tree, message.parent_id);
+  const siblings = tree.children[key] || [];
+  const nextIndex = siblings.indexOf(messageId) + offset;
+  if (nextIndex < 0 || nextIndex >= siblings.length) return tree;
+
+  return {
+    ...tree,
+    activeChild: {
+      ...tree.activeChild,
+      [key]: siblings[nextIndex],
+    },
+  };
+};
+
+/**
+ * 将指定消息所在的分支设为当前分支（用于定位搜索结果）
+ */
+export const activateMessage = (tree: MessageTree, messageId: number): MessageTree => {
+  if (!tree.messages[messageId]) return tree;
+
+  const activeChild = { ...tree.activeChild };
+  let message: ChatMessage | undefined = tree.messages[messageId];
+  while (message) {
+    activeChild[keyOf(tree, message.parent_id)] = message.id;
+    message = message.parent_id !== null && message.parent_id !== undefined
+      ? tree.messages[message.parent_id]
+      : undefined;
+  }
+
+  return { ...tree, activeChild };
+};
+
+/**
+ * 更新消息内容，若ID发生变化（临时ID替换为后端ID）则同步更新树结构
+ */
+export const updateMessage = (
+  tree: MessageTree,
+  messageId: number,
+  updater: (message: ChatMessage) => ChatMessage
+): MessageTree => {
+  const message = tree.messages[messageId];
+  if (!message) return tree;
+
+  const updated = { ...updater(message), parent_id: message.parent_id };
+  if (updated.id === messageId) {
+    return {
+      ...tree,
+      messages: { ...tree.messages, [messageId]: updated },
+    };
+  }
+
+  const oldKey = String(messageId);
+  const newKey = String(updated.id);
+  const parentKey = keyOf(tree, message.parent_id);
+
+  const messages = { ...tree.messages };
+  delete messages[messageId];
+  messages[updated.id] = updated;
+
+  const children = { ...tree.children };
+  children[parentKey] = (children[parentKey] || []).map(id =>
+    id === messageId ? updated.id : id
+  );
+  if (children[oldKey]) {
+    children[newKey] = children[oldKey];
+    delete children[oldKey];
+    // 子消息指向新的父ID
+    children[newKey].forEach(childId => {
+      messages[childId] = { ...messages[childId], parent_id: updated.id };
+    });
+  }
+
+  const activeChild = { ...tree.activeChild };
+  if (activeChild[parentKey] === messageId) {
+    activeChild[parentKey] = updated.id;
+  }
+  if (activeChild[oldKey] !== undefined) {
+    activeChild[newKey] = activeChild[oldKey];
+    delete activeChild[oldKey];
+  }
+
+  return { messages, children, activeChild };
+};
+
+/**
+ * 删除消息及其所有后代，父消息的当前分支回退到最近的兄弟版本
+ */
+export const removeMessage = (tree: MessageTree, messageId: number): MessageTree => {
+  const message = tree.messages[messageId];
+  if (!message) return tree;
+
+  const messages = { ...tree.messages };
+  const children = { ...tree.children };
+  const activeChild = { ...tree.activeChild };
+
+  const removeSubtree = (id: number) => {
+    const key = String(id);
+    (children[key] || []).forEach(removeSubtree);
+    delete children[key];
+    delete activeChild[key];
+    delete messages[id];
+  };
+  removeSubtree(messageId);
+
+  const parentKey = keyOf(tree, message.parent_id);
+  const siblings = (children[parentKey] || []).filter(id => id !== messageId);
+  if (siblings.length > 0) {
+    children[parentKey] = siblings;
+    if (activeChild[parentKey] === messageId) {
+      activeChild[parentKey] = siblings[siblings.length - 1];
+    }
+  } else {
+    delete children[parentKey];
+    delete activeChild[parentKey];
+  }
+
+  return { messages, children, activeChild };
+};
+
+/**
+ * 在父消息和其现有子消息之间插入消息
+ * 用于离线发送成功后补上AI回复，排在其后的待发送消息会接到该回复之后
+ */
+export const insertMessage = (
+  tree: MessageTree,
+  message: ChatMessage,
+  parentId: number
+): MessageTree => {
+  const parentKey = String(parentId);
+  const newKey = String(message.id);
+  const existingChildren = tree.children[parentKey] || [];
+
+  const messages = { ...tree.messages, [message.id]: { ...message, parent_id: parentId } };
+  existingChildren.forEach(childId => {
+    messages[childId] = { ...messages[childId], parent_id: message.id };
+  });
+
+  const children = { ...tree.children, [parentKey]: [message.id] };
+  const activeChild = { ...tree.activeChild, [parentKey]: message.id };
+  if (existingChildren.length > 0) {
+    children[newKey] = existingChildren;
+    if (tree.activeChild[parentKey] !== undefined) {
+      activeChild[newKey] = tree.activeChild[parentKey];
+    }
+  }
+
+  return { messages, children, activeChild };
+};
+
+/**
+ * 在消息树之前拼接更早的历史消息（分页加载）
+ * 父消息在更早消息中的根消息接回其父消息下，旧版后端不返回parent_id时接到更早消息当前分支的末尾
+ */
+export const prependMessages = (tree: MessageTree, olderMessages: ChatMessage[]): MessageTree => {
+  const older = buildMessageTree(olderMessages.filter(message => !tree.messages[message.id]));
+  const olderPath = getActivePath(older);
+  if (olderPath.length === 0) return tree;
+
+  const lastOlderId = olderPath[olderPath.length - 1].id;
+  const hasParentIds = olderMessages.some(message => message.parent_id !== undefined);
+
+  const messages = { ...older.messages, ...tree.messages };
+  const children = { ...older.children, ...tree.children };
+  const activeChild = { ...older.activeChild, ...tree.activeChild };
+  const rootChildren = [...(older.children[ROOT_KEY] || [])];
+
+  (tree.children[ROOT_KEY] || []).forEach(childId => {
+    const parentId = hasParentIds ? messages[childId].parent_id : lastOlderId;
+    if (parentId === null || parentId === undefined || !older.messages[parentId]) {
+      rootChildren.push(childId);
+      return;
+    }
+    const parentKey = String(parentId);
+    messages[childId] = { ...messages[childId], parent_id: parentId };
+    children[parentKey] = [...(children[parentKey] || []), childId];
+  });
+
+  children[ROOT_KEY] = rootChildren;
+  activeChild[ROOT_KEY] = older.activeChild[ROOT_KEY];
+
+  // 保持原先显示的分支为当前分支
+  const merged = { messages, children, activeChild };
+  const previousRootId = tree.activeChild[ROOT_KEY];
+  return previousRootId !== undefined ? activateMessage(merged, previousRootId) : merged;
+};
\ No newline at end of file
@@ -0,0 +1,32 @@
+import { NotificationType } from '../services/notificationService';
+import { readJSON, writeJSON } from './storage';
+
+// 偏好按用户保存，同一浏览器切换账户时互不影响
+const storageKey = (userId: string): string => `notification_preferences_${userId}`;
+
+// 支持桌面通知的通知类型
+export const DESKTOP_NOTIFICATION_TYPES: NotificationType[] = [
+  NotificationType.MESSAGE_RECEIVED,
+  NotificationType.SYSTEM_NOTIFICATION,
+];
+
+// 桌面通知偏好，按类型单独开启（默认全部关闭）
+export type NotificationPreferences = Partial<Record<NotificationType, boolean>>;
+
+/**
+ * 从localStorage读取用户的桌面通知偏好，未登录时全部关闭
+ */
+export const loadNotificationPreferences = (userId: string | null): NotificationPreferences =>
+  userId ? readJSON<NotificationPreferences>(storageKey(userId), {}) : {};
+
+/**
+ * 保存用户的桌面通知偏好到localStorage
+ */
+export const saveNotificationPreferences = (userId: string, preferences: NotificationPreferences): void =>
+  writeJSON(storageKey(userId), preferences);
+
+/**
+ * 已开启桌面通知的类型
+ */
+export const getEnabledNotificationTypes = (preferences: NotificationPreferences): NotificationType[] =>
+  DESKTOP_NOTIFICATION_TYPES.filter(type => preferences[type]);
\ No newline at end of file
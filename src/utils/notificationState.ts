@@ -0,0 +1,109 @@
+import type { NotificationEvent } from '../services/notificationService';
+import { readJSON, writeJSON } from './storage';
+
+const STORAGE_KEY_PREFIX = 'notification_state_';
+
+// 本地保存的通知数量上限
+export const MAX_STORED_NOTIFICATIONS = 100;
+
+// 已读、已删除ID的保存上限
+const MAX_STORED_IDS = 500;
+
+// 本地保存的通知状态（按用户区分）
+export interface NotificationState {
+  notifications: NotificationEvent[];
+  readEventIds: string[];
+  dismissedEventIds: string[];
+  // 尚未成功同步到服务器的已读、删除操作
+  pendingReadIds: string[];
+  pendingDismissedIds: string[];
+}
+
+export const EMPTY_NOTIFICATION_STATE: NotificationState = {
+  notifications: [],
+  readEventIds: [],
+  dismissedEventIds: [],
+  pendingReadIds: [],
+  pendingDismissedIds: [],
+};
+
+/**
+ * 用户通知状态在localStorage中的键
+ */
+export const getNotificationStateKey = (userId: string): string => `${STORAGE_KEY_PREFIX}${userId}`;
+
+/**
+ * 读取用户的通知状态
+ */
+export const loadNotificationState = (userId: string): NotificationState => ({
+  ...EMPTY_NOTIFICATION_STATE,
+  ...readJSON<Partial<NotificationState>>(getNotificationStateKey(userId), {}),
+});
+
+/**
+ * 保存用户的通知状态
+ */
+export const saveNotificationState = (userId: string, state: NotificationState): void => {
+  const { notifications, readEventIds, dismissedEventIds, pendingReadIds, pendingDismissedIds } = state;
+  writeJSON(getNotificationStateKey(userId), {
+    notifications,
+    readEventIds,
+    dismissedEventIds,
+    pendingReadIds,
+    pendingDismissedIds,
+  });
+};
+
+/**
+ * 向ID列表追加新ID（去重），只保留最近的记录
+ */
+export const appendIds = (ids: string[], added: string[], limit: number = MAX_STORED_IDS): string[] => {
+  if (added.length === 0) {
+    return ids;
+  }
+  const merged = new Set(ids);
+  added.forEach(id => {
+    merged.delete(id);
+    merged.add(id);
+  });
+  return Array.from(merged).slice(-limit);
+};
+
+/**
+ * 从ID列表中移除指定ID
+ */
+export const removeIds = (ids: string[], removed: string[]): string[] => {
+  if (removed.length === 0) {
+    return ids;
+  }
+  const removedSet = new Set(removed);
+  return ids.filter(id => !removedSet.has(id));
+};
+
+/**
+ * 合并收到的通知（新事件或服务器返回的列表），同步服务器记录的已读、删除状态
+ */
+export const mergeNotifications = (
+  state: NotificationState,
+  incoming: NotificationEvent[]
+): NotificationState => {
+  const serverRead = incoming.filter(event => event.read).map(event => event.event_id);
+  const serverDismissed = incoming.filter(event => event.dismissed).map(event => event.event_id);
+  const dismissedEventIds = appendIds(state.dismissedEventIds, serverDismissed);
+  const dismissed = new Set(dismissedEventIds);
+
+  const byId = new Map(state.notifications.map(event => [event.event_id, event]));
+  incoming.forEach(event => byId.set(event.event_id, event));
+
+  const notifications = Array.from(byId.values())
+    .filter(event => !dismissed.has(event.event_id))
+    .sort((a, b) => (Date.parse(a.timestamp) || 0) - (Date.parse(b.timestamp) || 0))
+    .slice(-MAX_STORED_NOTIFICATIONS);
+
+  return {
+    ...state,
+    notifications,
+    readEventIds: appendIds(state.readEventIds, serverRead),
+    dismissedEventIds,
+  };
+};
\ No newline at end of file
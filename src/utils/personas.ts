@@ -0,0 +1,71 @@
+import { Persona, ConversationPersona } from '../types';
+import { readJSON, writeJSON } from './storage';
+
+const PERSONAS_KEY = 'persona_presets';
+const CONVERSATION_PERSONAS_KEY = 'conversation_personas';
+
+/**
+ * 读取角色预设库
+ */
+export const loadPersonas = (): Persona[] => readJSON<Persona[]>(PERSONAS_KEY, []);
+
+/**
+ * 保存角色预设库
+ */
+export const savePersonas = (personas: Persona[]): void => writeJSON(PERSONAS_KEY, personas);
+
+/**
+ * 读取各对话使用的角色
+ */
+export const loadConversationPersonas = (): Record<string, ConversationPersona> =>
+  readJSON<Record<string, ConversationPersona>>(CONVERSATION_PERSONAS_KEY, {});
+
+/**
+ * 保存各对话使用的角色
+ */
+export const saveConversationPersonas = (personas: Record<string, ConversationPersona>): void =>
+  writeJSON(CONVERSATION_PERSONAS_KEY, personas);
+
+/**
+ * 转换为对话使用的角色快照
+ */
+export const toConversationPersona = (persona: Persona): ConversationPersona => ({
+  persona_id: persona.id,
+  name: persona.name,
+  system_prompt: persona.system_prompt,
+});
+
+/**
+ * 解析导入的角色文件内容
+ * 支持角色数组或 { personas: [...] } 格式，只保留名称和系统提示词
+ */
+export const parsePersonaImport = (text: string): Array<Pick<Persona, 'name' | 'system_prompt'>> => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error('文件不是有效的JSON');
+  }
+
+  const items = Array.isArray(data) ? data : data?.personas;
+  if (!Array.isArray(items)) {
+    throw new Error('未找到角色列表');
+  }
+
+  const personas = items
+    .filter((item: any) =>
+      item &&
+      typeof item.name === 'string' && item.name.trim() &&
+      typeof item.system_prompt === 'string' && item.system_prompt.trim()
+    )
+    .map((item: any) => ({
+      name: item.name.trim(),
+      system_prompt: item.system_prompt.trim(),
+    }));
+
+  if (personas.length === 0) {
+    throw new Error('文件中没有有效的角色');
+  }
+
+  return personas;
+};
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { AuthCallbackMode } from '../types';
+
+// 登录页路径
+export const LOGIN_PATH = '/login';
+
+// 账户设置页路径
+export const SETTINGS_PATH = '/settings';
+
+/**
+ * 生成对话页面路径，可附带定位到消息的锚点
+ */
+export const getConversationPath = (conversationId: string, messageId?: number): string =>
+  `/c/${encodeURIComponent(conversationId)}${messageId !== undefined ? `#m-${messageId}` : ''}`;
+
+/**
+ * 从 #m-<messageId> 锚点中解析消息ID
+ */
+export const parseMessageHash = (hash: string): number | null => {
+  const match = /^#m-(\d+)$/.exec(hash);
+  return match ? Number(match[1]) : null;
+};
+
+/**
+ * 只允许跳转到站内路径，避免开放重定向
+ * 浏览器会把 // 和 /\ 开头的路径当作其他域名
+ */
+export const getSafeRedirect = (redirect: string | null | undefined): string => {
+  if (!redirect || !redirect.startsWith('/') || redirect[1] === '/' || redirect[1] === '\\' || redirect.startsWith(LOGIN_PATH)) {
+    return '/';
+  }
+  return redirect;
+};
+
+/**
+ * 生成登录页路径，登录成功后跳转回redirect
+ */
+export const buildLoginPath = (redirect?: string): string => {
+  const target = getSafeRedirect(redirect);
+  return target === '/' ? LOGIN_PATH : `${LOGIN_PATH}?redirect=${encodeURIComponent(target)}`;
+};
+
+// Supabase邮件链接和第三方登录的回调路径
+export const AUTH_CALLBACK_PATH = '/auth/callback';
+
+/**
+ * 生成Supabase回调地址，mode指定回调后设置新密码或升级匿名账户
+ */
+export const buildAuthCallbackUrl = (redirect?: string, mode?: AuthCallbackMode): string => {
+  const params = new URLSearchParams();
+  const target = getSafeRedirect(redirect);
+  if (target !== '/') params.set('redirect', target);
+  if (mode) params.set('mode', mode);
+  const query = params.toString();
+  return `${window.location.origin}${AUTH_CALLBACK_PATH}${query ? `?${query}` : ''}`;
+};
\ No newline at end of file
@@ -0,0 +1,82 @@
+import { MessageSearchResult, SearchResultGroup } from '../types';
+
+// 摘要中匹配位置前后保留的字符数
+const SNIPPET_CONTEXT = 40;
+
+// 文本片段，match为true时表示命中搜索词
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * 将搜索词按空白拆分为关键词（忽略大小写）
+ */
+export const getSearchTerms = (query: string): string[] =>
+  Array.from(new Set(query.toLowerCase().split(/\s+/).filter(Boolean)));
+
+/**
+ * 文本是否包含所有关键词
+ */
+export const matchesTerms = (normalizedText: string, terms: string[]): boolean =>
+  terms.length > 0 && terms.every(term => normalizedText.includes(term));
+
+/**
+ * 截取第一个命中位置附近的文本作为摘要
+ */
+export const buildSnippet = (content: string, query: string): string => {
+  const text = content.replace(/\s+/g, ' ').trim();
+  const lower = text.toLowerCase();
+  const positions = getSearchTerms(query)
+    .map(term => lower.indexOf(term))
+    .filter(index => index >= 0);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+
+  const start = Math.max(0, first - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, first + SNIPPET_CONTEXT * 2);
+  return `${start > 0 ? '...' : ''}${text.slice(start, end)}${end < text.length ? '...' : ''}`;
+};
+
+/**
+ * 将文本拆分为普通片段和命中片段，用于高亮显示
+ */
+export const splitHighlights = (text: string, query: string): HighlightSegment[] => {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) return [{ text, match: false }];
+
+  // 较长的关键词优先匹配，避免被其前缀截断
+  const pattern = new RegExp(
+    `(${terms.sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})`,
+    'gi'
+  );
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map(part => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+};
+
+/**
+ * 按对话分组搜索结果，保持结果的原有顺序
+ */
+export const groupSearchResults = (results: MessageSearchResult[]): SearchResultGroup[] => {
+  const groups: SearchResultGroup[] = [];
+  const byConversation: Record<string, SearchResultGroup> = {};
+
+  results.forEach(result => {
+    let group = byConversation[result.conversation_id];
+    if (!group) {
+      group = {
+        conversation_id: result.conversation_id,
+        conversation_title: result.conversation_title,
+        results: [],
+      };
+      byConversation[result.conversation_id] = group;
+      groups.push(group);
+    }
+    group.results.push(result);
+  });
+
+  return groups;
+};
\ No newline at end of file
@@ -0,0 +1,18 @@
+/**
+ * 生成分享链接
+ */
+export const getShareUrl = (shareId: string): string =>
+  `${window.location.origin}/share/${encodeURIComponent(shareId)}`;
+
+/**
+ * 复制文本到剪贴板
+ */
+export const copyToClipboard = async (text: string): Promise<boolean> => {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch (error) {
+    console.error('复制失败:', error);
+    return false;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,38 @@
+// 朗读时按句子切分的标点
+const SENTENCE_END = /[。！？；!?;\n]|\.(\s|$)/g;
+
+/**
+ * 将Markdown转换为适合朗读的纯文本
+ */
+export const toSpeechText = (markdown: string): string =>
+  markdown
+    .replace(/```[\s\S]*?(```|$)/g, '（代码略）')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*_~|]+/g, '')
+    .replace(/\n{2,}/g, '\n')
+    .trim();
+
+/**
+ * 返回文本中最后一个完整句子的结束位置，没有完整句子时返回0
+ * 未闭合的代码块之后的内容视为不完整
+ */
+export const findSpeakableEnd = (text: string): number => {
+  const fenceCount = (text.match(/```/g) || []).length;
+  const limit = fenceCount % 2 === 1 ? text.lastIndexOf('```') : text.length;
+  let end = 0;
+  SENTENCE_END.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = SENTENCE_END.exec(text)) !== null && match.index < limit) {
+    end = match.index + match[0].length;
+  }
+  return end;
+};
+
+/**
+ * 根据文本内容选择朗读语言
+ */
+export const detectSpeechLang = (text: string): string =>
+  /[一-鿿]/.test(text) ? 'zh-CN' : 'en-US';
\ No newline at end of file
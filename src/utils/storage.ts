@@ -0,0 +1,23 @@
+/**
+ * 从localStorage读取JSON数据，读取或解析失败时返回默认值
+ */
+export const readJSON = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (error) {
+    console.error(`读取本地数据失败 (${key}):`, error);
+    return fallback;
+  }
+};
+
+/**
+ * 以JSON格式写入localStorage
+ */
+export const writeJSON = <T>(key: string, value: T): void => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`保存本地数据失败 (${key}):`, error);
+  }
+};
\ No newline at end of file